@@ -7,7 +7,8 @@ import {
   StorageDriver,
   ImageProcessingResult,
   ImageSize,
-  ImageFormat
+  ImageFormat,
+  ImageProcessingPresets
 } from '../src';
 import { Injectable, Inject } from '@nestjs/common';
 
@@ -80,6 +81,16 @@ export class AdvancedImageConfigs {
       ])
       .setDPR({ ratios: [1, 2, 3] });
   }
+
+  // Пресеты для ImageProcessorModule.forRoot({ storageDriver, presets: AdvancedImageConfigs.getPresets() })
+  static getPresets(): ImageProcessingPresets {
+    return {
+      avatar: { ...this.getAvatarConfig().toOptions(), basePath: '/avatars' },
+      gallery: { ...this.getGalleryConfig().toOptions(), basePath: '/gallery' },
+      banner: { ...this.getBannerConfig().toOptions(), basePath: '/banners' },
+      product: { ...this.getProductConfig().toOptions(), basePath: '/products' }
+    };
+  }
 }
 
 // 2. AWS S3 Storage Driver
@@ -146,20 +157,13 @@ export class S3StorageDriver implements StorageDriver {
 // 3. Продвинутый сервис обработки изображений
 @Injectable()
 export class AdvancedImageService {
-  private configs: Map<string, ImageProcessingConfig> = new Map();
-
   constructor(
     private readonly imagePipeline: ImagePipelineService,
     private readonly imageProcessor: ImageProcessorService
-  ) {
-    // Инициализация конфигураций
-    this.configs.set('avatar', AdvancedImageConfigs.getAvatarConfig());
-    this.configs.set('gallery', AdvancedImageConfigs.getGalleryConfig());
-    this.configs.set('banner', AdvancedImageConfigs.getBannerConfig());
-    this.configs.set('product', AdvancedImageConfigs.getProductConfig());
-  }
+  ) {}
 
-  // Обработка изображения с определенной конфигурацией
+  // Обработка изображения с пресетом из AdvancedImageConfigs.getPresets().
+  // Неизвестное имя пресета приводит к UnknownPresetError.
   async processWithConfig(
     buffer: Buffer,
     originalName: string,
@@ -167,29 +171,11 @@ export class AdvancedImageService {
     mimeType?: string,
     maxSize?: number
   ): Promise<ImageProcessingResult> {
-    const config = this.configs.get(configType);
-    if (!config) {
-      throw new Error(`Неизвестный тип конфигурации: ${configType}`);
-    }
-
-    // Сохраняем текущую конфигурацию
-    const originalConfig = this.imagePipeline.config;
-    
-    try {
-      // Применяем новую конфигурацию
-      this.imagePipeline.updateConfig(config);
-      
-      // Обрабатываем изображение
-      return await this.imagePipeline.processImage(
-        buffer,
-        originalName,
-        mimeType,
-        maxSize
-      );
-    } finally {
-      // Восстанавливаем оригинальную конфигурацию
-      this.imagePipeline.updateConfig(originalConfig);
-    }
+    return this.imagePipeline.processImage(buffer, originalName, {
+      preset: configType,
+      mimeType,
+      maxSizeInBytes: maxSize
+    });
   }
 
   // Массовая обработка изображений
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ImageProcessingConfig } from '../config/image-processing.config';
-import { ImageSize, ImageFormat, DPRConfig } from '../interfaces/image-processing.interface';
+import { ImageSize, ImageFormat, DPRConfig, MetadataField } from '../interfaces/image-processing.interface';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
 
 describe('ImageProcessingConfig', () => {
   let config: ImageProcessingConfig;
@@ -85,6 +86,12 @@ describe('ImageProcessingConfig', () => {
       expect(config.sizes).toHaveLength(initialLength + 1);
       expect(config.sizes[config.sizes.length - 1].width).toBe(500);
     });
+
+    it('should reject invalid crop options', () => {
+      expect(() => config.addSize({ width: 256, height: 256, fit: 'stretch' as any })).toThrow(InvalidConfigurationError);
+      expect(() => config.addSize({ width: 256, height: 256, position: 'entropy' })).toThrow('requires fit "cover"');
+      expect(() => new ImageProcessingConfig({ sizes: [{ width: 0 }] } as any)).toThrow(InvalidConfigurationError);
+    });
   });
 
   describe('addFormat', () => {
@@ -96,6 +103,12 @@ describe('ImageProcessingConfig', () => {
       expect(config.formats).toHaveLength(initialLength + 1);
       expect(config.formats[config.formats.length - 1].type).toBe('jpeg');
     });
+
+    it('should reject encoder options the format does not support', () => {
+      expect(() => config.addFormat({ type: 'jpeg', palette: true })).toThrow(InvalidConfigurationError);
+      expect(() => new ImageProcessingConfig({ formats: [{ type: 'webp', effort: 10 }] } as any))
+        .toThrow(InvalidConfigurationError);
+    });
   });
 
   describe('removeSize', () => {
@@ -108,6 +121,22 @@ describe('ImageProcessingConfig', () => {
       expect(config.sizes.find(size => size.width === 320)).toBeUndefined();
     });
 
+    it('should remove only the matching crop of a shared width', () => {
+      config.setSizes([
+        { width: 256 },
+        { width: 256, height: 256, fit: 'cover' },
+        { width: 256, height: 256, fit: 'cover', position: 'attention' }
+      ]);
+
+      config.removeSize({ width: 256, height: 256, fit: 'cover' });
+
+      expect(config.sizes).toEqual([
+        { width: 256 },
+        { width: 256, height: 256, fit: 'cover', position: 'attention' }
+      ]);
+      expect(config.removeSize(256).sizes).toEqual([]);
+    });
+
     it('should not throw when removing non-existent size', () => {
       const initialLength = config.sizes.length;
       config.removeSize(999);
@@ -189,4 +218,184 @@ describe('ImageProcessingConfig', () => {
       expect(config.dpr.ratios).toHaveLength(initialLength);
     });
   });
+
+  describe('setConcurrency', () => {
+    it('should default to 4 concurrent variants', () => {
+      expect(config.concurrency).toBe(4);
+    });
+
+    it('should set concurrency', () => {
+      const result = config.setConcurrency(2);
+
+      expect(result).toBe(config);
+      expect(config.concurrency).toBe(2);
+      expect(new ImageProcessingConfig({ concurrency: 8 }).concurrency).toBe(8);
+    });
+
+    it('should reject non-positive concurrency', () => {
+      expect(() => config.setConcurrency(0)).toThrow(InvalidConfigurationError);
+      expect(() => config.setConcurrency(1.5)).toThrow(InvalidConfigurationError);
+      expect(() => new ImageProcessingConfig({ concurrency: -1 })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setLimits', () => {
+    it('should start with the default limits', () => {
+      expect(config.limits).toEqual(ImageProcessingConfig.DEFAULT_LIMITS);
+    });
+
+    it('should merge limits over the defaults', () => {
+      const result = config.setLimits({ maxMegapixels: 24, maxFrames: undefined });
+
+      expect(result).toBe(config);
+      expect(config.limits).toMatchObject({ maxWidth: 16384, maxMegapixels: 24, maxFrames: undefined });
+      expect(new ImageProcessingConfig({ limits: { minWidth: 100 } }).limits.minWidth).toBe(100);
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => config.setLimits({ maxWidth: 0 })).toThrow(InvalidConfigurationError);
+      expect(() => config.setLimits({ minHeight: 500, maxHeight: 100 })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setSvgPolicy', () => {
+    it('should sanitize SVGs at 72 DPI by default', () => {
+      expect(config.svgPolicy).toBe('sanitize');
+      expect(config.svgDensity).toBe(72);
+    });
+
+    it('should set the policy and density', () => {
+      const result = config.setSvgPolicy('rasterize', 300);
+
+      expect(result).toBe(config);
+      expect(config.svgPolicy).toBe('rasterize');
+      expect(config.svgDensity).toBe(300);
+      expect(new ImageProcessingConfig({ svgPolicy: 'reject' }).svgPolicy).toBe('reject');
+    });
+
+    it('should reject unknown policies and invalid densities', () => {
+      expect(() => config.setSvgPolicy('allow' as any)).toThrow(InvalidConfigurationError);
+      expect(() => config.setSvgPolicy('rasterize', 0)).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setAnimation', () => {
+    it('should preserve animation with the first frame as poster by default', () => {
+      expect(config.animation).toEqual({ forceStatic: false, posterFrame: 0 });
+    });
+
+    it('should merge options over the defaults', () => {
+      const result = config.setAnimation({ forceStatic: true });
+
+      expect(result).toBe(config);
+      expect(config.animation).toEqual({ forceStatic: true, posterFrame: 0 });
+      expect(new ImageProcessingConfig({ animation: { posterFrame: 2 } }).animation.posterFrame).toBe(2);
+    });
+
+    it('should reject invalid poster frames', () => {
+      expect(() => config.setAnimation({ posterFrame: -1 })).toThrow(InvalidConfigurationError);
+      expect(() => config.setAnimation({ posterFrame: 1.5 })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setPlaceholders', () => {
+    it('should disable placeholders by default', () => {
+      expect(config.hasPlaceholders).toBe(false);
+      expect(config.placeholders).toMatchObject({ lqipWidth: 16, blurhashComponents: { x: 4, y: 3 } });
+    });
+
+    it('should merge options over the defaults', () => {
+      config.setPlaceholders({ blurhash: true, blurhashComponents: { x: 3, y: 3 } });
+
+      expect(config.hasPlaceholders).toBe(true);
+      expect(config.placeholders).toMatchObject({ blurhash: true, lqip: false, lqipWidth: 16, blurhashComponents: { x: 3, y: 3 } });
+      expect(config.extend({ placeholders: { lqip: true } }).placeholders).toMatchObject({ blurhash: true, lqip: true });
+    });
+
+    it('should reject invalid sizes', () => {
+      expect(() => config.setPlaceholders({ lqipWidth: 2 })).toThrow(InvalidConfigurationError);
+      expect(() => config.setPlaceholders({ blurhashComponents: { x: 10, y: 3 } })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setPalette', () => {
+    it('should merge options over the defaults', () => {
+      expect(config.palette).toEqual({ enabled: false, count: 5 });
+      expect(config.setPalette({ enabled: true }).palette).toEqual({ enabled: true, count: 5 });
+      expect(config.extend({ palette: { count: 8 } }).palette).toEqual({ enabled: true, count: 8 });
+    });
+
+    it('should reject invalid sizes', () => {
+      expect(() => config.setPalette({ count: 0 })).toThrow(InvalidConfigurationError);
+      expect(() => config.setPalette({ count: 17 })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('setMetadata', () => {
+    it('should auto-orient and strip metadata by default', () => {
+      expect(config.metadata).toEqual({ autoOrient: true, keep: [] });
+    });
+
+    it('should merge options over the defaults', () => {
+      config.setMetadata({ keep: ['copyright', 'icc', 'copyright'] });
+
+      expect(config.metadata).toEqual({ autoOrient: true, keep: ['copyright', 'icc'] });
+      expect(config.extend({ metadata: { autoOrient: false } }).metadata).toEqual({ autoOrient: false, keep: ['copyright', 'icc'] });
+    });
+
+    it('should reject unknown fields', () => {
+      expect(() => config.setMetadata({ keep: ['gps' as MetadataField] })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('extend', () => {
+    it('should copy values and apply overrides without changing the original', () => {
+      config.setConcurrency(2).setLimits({ maxWidth: 4000 });
+
+      const extended = config.extend({ sizes: [{ width: 64 }], limits: { maxHeight: 3000 } });
+
+      expect(extended).not.toBe(config);
+      expect(extended.sizes).toEqual([{ width: 64 }]);
+      expect(extended.formats).toEqual(config.formats);
+      expect(extended.concurrency).toBe(2);
+      expect(extended.limits).toMatchObject({ maxWidth: 4000, maxHeight: 3000 });
+      expect(config.sizes).toHaveLength(3);
+      expect(config.limits.maxHeight).toBe(16384);
+    });
+
+    it('should round-trip through toOptions', () => {
+      config.setSvgPolicy('reject').setAnimation({ forceStatic: true });
+
+      expect(new ImageProcessingConfig(config.toOptions()).toOptions()).toEqual(config.toOptions());
+    });
+  });
+
+  describe('snapshot', () => {
+    it('should not follow later changes to the original', () => {
+      const snapshot = config.snapshot();
+
+      config.setSizes([{ width: 10 }]).setLimits({ maxWidth: 100 });
+
+      expect(snapshot.sizes).toHaveLength(3);
+      expect(snapshot.limits.maxWidth).toBe(16384);
+      expect(snapshot.frozen).toBe(true);
+      expect(config.frozen).toBe(false);
+    });
+
+    it('should reject changes', () => {
+      const snapshot = config.snapshot();
+
+      expect(() => snapshot.setSizes([])).toThrow(InvalidConfigurationError);
+      expect(() => snapshot.addDPRRatio(4)).toThrow(InvalidConfigurationError);
+      expect(() => { snapshot.sizes[0].width = 1; }).toThrow(TypeError);
+      expect(snapshot.dpr.ratios).toEqual([1, 2, 3]);
+    });
+
+    it('should allow deriving a new config', () => {
+      const derived = config.snapshot().extend({ concurrency: 8 });
+
+      expect(derived.frozen).toBe(false);
+      expect(derived.concurrency).toBe(8);
+    });
+  });
 });
@@ -1,6 +1,56 @@
-import { ImageSize, ImageFormat, DPRConfig } from '../interfaces/image-processing.interface';
+import {
+  ImageSize,
+  ImageFormat,
+  DPRConfig,
+  ImageLimits,
+  SvgPolicy,
+  AnimationOptions,
+  PlaceholderOptions,
+  PaletteConfig,
+  MetadataOptions,
+  MetadataField,
+  ImageProcessingConfig as IImageProcessingConfig
+} from '../interfaces/image-processing.interface';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
+import { ImageSizeUtils } from '../utils/image-size.utils';
+import { ImageFormatUtils } from '../utils/image-format.utils';
 
 export class ImageProcessingConfig {
+  static readonly DEFAULT_LIMITS: ImageLimits = {
+    maxWidth: 16384,
+    maxHeight: 16384,
+    maxMegapixels: 100,
+    minWidth: 1,
+    minHeight: 1,
+    maxFrames: 500
+  };
+
+  static readonly DEFAULT_ANIMATION: AnimationOptions = {
+    forceStatic: false,
+    posterFrame: 0
+  };
+
+  static readonly DEFAULT_PLACEHOLDERS: PlaceholderOptions = {
+    lqip: false,
+    lqipWidth: 16,
+    blurhash: false,
+    blurhashComponents: { x: 4, y: 3 },
+    svg: false,
+    dominantColor: false
+  };
+
+  static readonly DEFAULT_PALETTE: PaletteConfig = {
+    enabled: false,
+    count: 5
+  };
+
+  static readonly DEFAULT_METADATA: MetadataOptions = {
+    autoOrient: true,
+    keep: []
+  };
+
+  private static readonly METADATA_FIELDS: MetadataField[] = ['copyright', 'icc'];
+
   private _sizes: ImageSize[] = [
     { width: 320 },
     { width: 640 },
@@ -16,12 +66,39 @@ export class ImageProcessingConfig {
     ratios: [1, 2, 3]
   };
 
+  // Maximum number of variants encoded and uploaded at the same time
+  private _concurrency = 4;
+
+  // Content-addressed storage: identical uploads reuse the first result
+  private _deduplicate = false;
+
+  // Reject uploads whose file signature does not match the extension or MIME type
+  private _strictValidation = false;
+
+  private _limits: ImageLimits = { ...ImageProcessingConfig.DEFAULT_LIMITS };
+
+  private _svgPolicy: SvgPolicy = 'sanitize';
+
+  // DPI used when an SVG is rasterized; 72 renders at the SVG's own pixel size
+  private _svgDensity = 72;
+
+  private _animation: AnimationOptions = { ...ImageProcessingConfig.DEFAULT_ANIMATION };
+
+  private _placeholders: PlaceholderOptions = { ...ImageProcessingConfig.DEFAULT_PLACEHOLDERS };
+
+  private _palette: PaletteConfig = { ...ImageProcessingConfig.DEFAULT_PALETTE };
+
+  private _metadata: MetadataOptions = { ...ImageProcessingConfig.DEFAULT_METADATA };
+
+  // Set on snapshots; every setter then throws
+  private _frozen = false;
+
   constructor(config?: Partial<ImageProcessingConfig>) {
     if (config?.sizes) {
-      this._sizes = config.sizes;
+      this.setSizes(config.sizes);
     }
     if (config?.formats) {
-      this._formats = config.formats;
+      this.setFormats(config.formats);
     }
     if (config?.dpr) {
       this._dpr = { 
@@ -29,6 +106,33 @@ export class ImageProcessingConfig {
         ratios: [...config.dpr.ratios] 
       };
     }
+    if (config?.concurrency !== undefined) {
+      this.setConcurrency(config.concurrency);
+    }
+    if (config?.deduplicate !== undefined) {
+      this._deduplicate = config.deduplicate;
+    }
+    if (config?.strictValidation !== undefined) {
+      this._strictValidation = config.strictValidation;
+    }
+    if (config?.limits) {
+      this.setLimits(config.limits);
+    }
+    if (config?.svgPolicy !== undefined || config?.svgDensity !== undefined) {
+      this.setSvgPolicy(config.svgPolicy ?? this._svgPolicy, config.svgDensity);
+    }
+    if (config?.animation) {
+      this.setAnimation(config.animation);
+    }
+    if (config?.placeholders) {
+      this.setPlaceholders(config.placeholders);
+    }
+    if (config?.palette) {
+      this.setPalette(config.palette);
+    }
+    if (config?.metadata) {
+      this.setMetadata(config.metadata);
+    }
   }
 
   get sizes(): ImageSize[] {
@@ -46,17 +150,116 @@ export class ImageProcessingConfig {
     };
   }
 
+  get concurrency(): number {
+    return this._concurrency;
+  }
+
+  get deduplicate(): boolean {
+    return this._deduplicate;
+  }
+
+  get strictValidation(): boolean {
+    return this._strictValidation;
+  }
+
+  get limits(): ImageLimits {
+    return { ...this._limits };
+  }
+
+  get svgPolicy(): SvgPolicy {
+    return this._svgPolicy;
+  }
+
+  get svgDensity(): number {
+    return this._svgDensity;
+  }
+
+  get animation(): AnimationOptions {
+    return { ...this._animation };
+  }
+
+  get placeholders(): PlaceholderOptions {
+    return { ...this._placeholders, blurhashComponents: { ...this._placeholders.blurhashComponents } };
+  }
+
+  get palette(): PaletteConfig {
+    return { ...this._palette };
+  }
+
+  get metadata(): MetadataOptions {
+    return { ...this._metadata, keep: [...this._metadata.keep] };
+  }
+
+  // True when any placeholder kind is enabled
+  get hasPlaceholders(): boolean {
+    const { lqip, blurhash, svg, dominantColor } = this._placeholders;
+    return lqip || blurhash || svg || dominantColor;
+  }
+
+  get frozen(): boolean {
+    return this._frozen;
+  }
+
+  toOptions(): IImageProcessingConfig {
+    return {
+      sizes: this.sizes,
+      formats: this.formats,
+      dpr: this.dpr,
+      concurrency: this.concurrency,
+      deduplicate: this.deduplicate,
+      strictValidation: this.strictValidation,
+      limits: this.limits,
+      svgPolicy: this.svgPolicy,
+      svgDensity: this.svgDensity,
+      animation: this.animation,
+      placeholders: this.placeholders,
+      palette: this.palette,
+      metadata: this.metadata
+    };
+  }
+
+  // A new config with this one's values and the given overrides; limits, animation,
+  // placeholder, palette and metadata options are merged field by field
+  extend(overrides: Partial<IImageProcessingConfig>): ImageProcessingConfig {
+    return new ImageProcessingConfig({
+      ...this.toOptions(),
+      ...overrides,
+      limits: { ...this.limits, ...overrides.limits },
+      animation: { ...this.animation, ...overrides.animation },
+      placeholders: { ...this.placeholders, ...overrides.placeholders },
+      palette: { ...this.palette, ...overrides.palette },
+      metadata: { ...this.metadata, ...overrides.metadata }
+    });
+  }
+
+  // An immutable deep copy: later changes to this config do not reach it, and it cannot be changed
+  snapshot(): ImageProcessingConfig {
+    const options = this.toOptions();
+    const copy = new ImageProcessingConfig({
+      ...options,
+      sizes: options.sizes.map(size => Object.freeze({ ...size })),
+      formats: options.formats.map(format => Object.freeze({ ...format }))
+    });
+    copy._frozen = true;
+    return copy;
+  }
+
   setSizes(sizes: ImageSize[]): ImageProcessingConfig {
+    this.assertMutable();
+    sizes.forEach(size => ImageSizeUtils.validate(size));
     this._sizes = [...sizes];
     return this;
   }
 
   setFormats(formats: ImageFormat[]): ImageProcessingConfig {
+    this.assertMutable();
+    formats.forEach(format => ImageFormatUtils.validate(format));
     this._formats = [...formats];
     return this;
   }
 
   setDPR(dpr: DPRConfig): ImageProcessingConfig {
+    this.assertMutable();
     this._dpr = { 
       ...dpr, 
       ratios: [...dpr.ratios] 
@@ -64,35 +267,152 @@ export class ImageProcessingConfig {
     return this;
   }
 
+  setConcurrency(concurrency: number): ImageProcessingConfig {
+    this.assertMutable();
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidConfigurationError(`Concurrency must be a positive integer, got ${concurrency}`);
+    }
+    this._concurrency = concurrency;
+    return this;
+  }
+
+  setDeduplicate(enabled: boolean): ImageProcessingConfig {
+    this.assertMutable();
+    this._deduplicate = enabled;
+    return this;
+  }
+
+  setStrictValidation(enabled: boolean): ImageProcessingConfig {
+    this.assertMutable();
+    this._strictValidation = enabled;
+    return this;
+  }
+
+  // Merged over DEFAULT_LIMITS; set a limit to undefined to disable it
+  setLimits(limits: ImageLimits): ImageProcessingConfig {
+    this.assertMutable();
+    const merged = { ...ImageProcessingConfig.DEFAULT_LIMITS, ...limits };
+    for (const [name, value] of Object.entries(merged)) {
+      if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+        throw new InvalidConfigurationError(`Limit ${name} must be a positive number, got ${value}`);
+      }
+    }
+    if (merged.minWidth > merged.maxWidth || merged.minHeight > merged.maxHeight) {
+      throw new InvalidConfigurationError('Minimum dimensions must not exceed maximum dimensions');
+    }
+    this._limits = merged;
+    return this;
+  }
+
+  setSvgPolicy(policy: SvgPolicy, density: number = this._svgDensity): ImageProcessingConfig {
+    this.assertMutable();
+    if (!['reject', 'sanitize', 'rasterize'].includes(policy)) {
+      throw new InvalidConfigurationError(`Unknown SVG policy: ${policy}`);
+    }
+    if (!(density >= 1 && density <= 100000)) {
+      throw new InvalidConfigurationError(`SVG density must be between 1 and 100000, got ${density}`);
+    }
+    this._svgPolicy = policy;
+    this._svgDensity = density;
+    return this;
+  }
+
+  // Merged over DEFAULT_ANIMATION; a poster frame past the last frame selects the last one
+  setAnimation(animation: AnimationOptions): ImageProcessingConfig {
+    this.assertMutable();
+    const merged = { ...ImageProcessingConfig.DEFAULT_ANIMATION, ...animation };
+    if (!Number.isInteger(merged.posterFrame) || merged.posterFrame < 0) {
+      throw new InvalidConfigurationError(`Poster frame must be a non-negative integer, got ${merged.posterFrame}`);
+    }
+    this._animation = merged;
+    return this;
+  }
+
+  // Merged over DEFAULT_PLACEHOLDERS
+  setPlaceholders(placeholders: PlaceholderOptions): ImageProcessingConfig {
+    this.assertMutable();
+    const merged = { ...ImageProcessingConfig.DEFAULT_PLACEHOLDERS, ...placeholders };
+    if (!Number.isInteger(merged.lqipWidth) || merged.lqipWidth < 4 || merged.lqipWidth > 64) {
+      throw new InvalidConfigurationError(`LQIP width must be an integer between 4 and 64, got ${merged.lqipWidth}`);
+    }
+    const { x, y } = merged.blurhashComponents;
+    if (![x, y].every(count => Number.isInteger(count) && count >= 1 && count <= 9)) {
+      throw new InvalidConfigurationError(`BlurHash components must be integers between 1 and 9, got ${x}x${y}`);
+    }
+    this._placeholders = { ...merged, blurhashComponents: { x, y } };
+    return this;
+  }
+
+  // Merged over DEFAULT_PALETTE
+  setPalette(palette: PaletteConfig): ImageProcessingConfig {
+    this.assertMutable();
+    const merged = { ...ImageProcessingConfig.DEFAULT_PALETTE, ...palette };
+    if (!Number.isInteger(merged.count) || merged.count < 1 || merged.count > 16) {
+      throw new InvalidConfigurationError(`Palette size must be an integer between 1 and 16, got ${merged.count}`);
+    }
+    this._palette = merged;
+    return this;
+  }
+
+  // Merged over DEFAULT_METADATA
+  setMetadata(metadata: MetadataOptions): ImageProcessingConfig {
+    this.assertMutable();
+    const merged = { ...ImageProcessingConfig.DEFAULT_METADATA, ...metadata };
+    const unknown = merged.keep.find(field => !ImageProcessingConfig.METADATA_FIELDS.includes(field));
+    if (unknown !== undefined) {
+      throw new InvalidConfigurationError(`Unknown metadata field: ${unknown}`);
+    }
+    this._metadata = { ...merged, keep: [...new Set(merged.keep)] };
+    return this;
+  }
+
   addSize(size: ImageSize): ImageProcessingConfig {
+    this.assertMutable();
+    ImageSizeUtils.validate(size);
     this._sizes.push(size);
     return this;
   }
 
   addFormat(format: ImageFormat): ImageProcessingConfig {
+    this.assertMutable();
+    ImageFormatUtils.validate(format);
     this._formats.push(format);
     return this;
   }
 
   addDPRRatio(ratio: number): ImageProcessingConfig {
+    this.assertMutable();
     if (!this._dpr.ratios.includes(ratio)) {
       this._dpr.ratios.push(ratio);
     }
     return this;
   }
 
-  removeSize(width: number): ImageProcessingConfig {
-    this._sizes = this._sizes.filter(size => size.width !== width);
+  // A width removes every size with that width; an ImageSize removes only sizes
+  // that render the same way (same ImageSizeUtils.getKey)
+  removeSize(size: number | ImageSize): ImageProcessingConfig {
+    this.assertMutable();
+    this._sizes = typeof size === 'number'
+      ? this._sizes.filter(existing => existing.width !== size)
+      : this._sizes.filter(existing => ImageSizeUtils.getKey(existing) !== ImageSizeUtils.getKey(size));
     return this;
   }
 
   removeFormat(type: ImageFormat['type']): ImageProcessingConfig {
+    this.assertMutable();
     this._formats = this._formats.filter(format => format.type !== type);
     return this;
   }
 
   removeDPRRatio(ratio: number): ImageProcessingConfig {
+    this.assertMutable();
     this._dpr.ratios = this._dpr.ratios.filter(r => r !== ratio);
     return this;
   }
+
+  private assertMutable(): void {
+    if (this._frozen) {
+      throw new InvalidConfigurationError('Config snapshots are immutable; use extend() to derive a new config');
+    }
+  }
 }
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Readable } from 'stream';
+import { InMemoryStorageDriver } from './in-memory.storage-driver';
+import { StorageError } from '../errors/image-processing.errors';
+
+describe('InMemoryStorageDriver', () => {
+  let driver: InMemoryStorageDriver;
+
+  beforeEach(() => {
+    driver = new InMemoryStorageDriver();
+  });
+
+  it('should store and return uploaded files', async () => {
+    const data = Buffer.from('image data');
+
+    const path = await driver.upload('/uploads/pic.jpg', data);
+
+    expect(path).toBe('/uploads/pic.jpg');
+    expect(driver.has(path)).toBe(true);
+    expect(await driver.download(path)).toEqual(data);
+  });
+
+  it('should record every operation in order', async () => {
+    await driver.upload('a.webp', Buffer.from('abc'));
+    await driver.download('a.webp');
+    await driver.delete('a.webp');
+
+    expect(driver.operations).toEqual([
+      { type: 'upload', path: 'a.webp', size: 3 },
+      { type: 'download', path: 'a.webp' },
+      { type: 'delete', path: 'a.webp' }
+    ]);
+    expect(driver.uploads).toHaveLength(1);
+    expect(driver.downloads).toHaveLength(1);
+    expect(driver.deletes).toHaveLength(1);
+  });
+
+  it('should record failed operations and throw StorageError', async () => {
+    await expect(driver.download('missing.webp')).rejects.toThrow(StorageError);
+    await expect(driver.delete('missing.webp')).rejects.toThrow(StorageError);
+
+    expect(driver.operations).toHaveLength(2);
+  });
+
+  it('should support streaming and mark streamed operations', async () => {
+    await driver.uploadStream('a.webp', Readable.from([Buffer.from('ab'), Buffer.from('c')]));
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await driver.downloadStream('a.webp')) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).toString()).toBe('abc');
+    expect(driver.operations).toEqual([
+      { type: 'upload', path: 'a.webp', size: 3, streamed: true },
+      { type: 'download', path: 'a.webp', streamed: true }
+    ]);
+  });
+
+  it('should support exists, stat, list and copy', async () => {
+    await driver.upload('/a/pic.webp', Buffer.from('abc'));
+    await driver.upload('/b/pic.webp', Buffer.from('de'));
+
+    expect(await driver.exists('/a/pic.webp')).toBe(true);
+    expect(await driver.exists('/a/missing.webp')).toBe(false);
+    expect(await driver.stat('/a/pic.webp')).toMatchObject({ size: 3, contentType: 'image/webp' });
+    expect(await driver.list('/a/')).toEqual(['/a/pic.webp']);
+
+    await driver.copy('/a/pic.webp', '/c/pic.webp');
+
+    expect(driver.get('/c/pic.webp')?.toString()).toBe('abc');
+    expect(driver.operations[driver.operations.length - 1]).toEqual({ type: 'copy', path: '/c/pic.webp', size: 3 });
+    await expect(driver.copy('/missing.webp', '/d.webp')).rejects.toThrow(StorageError);
+  });
+
+  it('should not share buffers with callers', async () => {
+    const data = Buffer.from('abc');
+    await driver.upload('a.webp', data);
+    data[0] = 0;
+
+    expect(driver.get('a.webp')?.toString()).toBe('abc');
+  });
+
+  it('should reset files and operations', async () => {
+    await driver.upload('a.webp', Buffer.from('abc'));
+
+    driver.reset();
+
+    expect(driver.paths).toEqual([]);
+    expect(driver.operations).toEqual([]);
+  });
+});
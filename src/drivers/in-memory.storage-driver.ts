@@ -0,0 +1,132 @@
+import { Readable } from 'stream';
+import { StorageDriver, StorageObjectInfo } from '../interfaces/storage-driver.interface';
+import { StorageError } from '../errors/image-processing.errors';
+import { ContentTypeUtils } from '../utils/content-type.utils';
+
+export interface StorageOperation {
+  type: 'upload' | 'download' | 'delete' | 'copy';
+  path: string;
+  size?: number;
+  streamed?: boolean;
+}
+
+export class InMemoryStorageDriver implements StorageDriver {
+  private readonly files = new Map<string, Buffer>();
+  private readonly modified = new Map<string, Date>();
+  private readonly _operations: StorageOperation[] = [];
+
+  async upload(path: string, data: Buffer): Promise<string> {
+    this._operations.push({ type: 'upload', path, size: data.length });
+    this.store(path, Buffer.from(data));
+    return path;
+  }
+
+  async download(path: string): Promise<Buffer> {
+    this._operations.push({ type: 'download', path });
+    const data = this.files.get(path);
+    if (!data) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+    return Buffer.from(data);
+  }
+
+  async uploadStream(path: string, stream: Readable): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const data = Buffer.concat(chunks);
+
+    this._operations.push({ type: 'upload', path, size: data.length, streamed: true });
+    this.store(path, data);
+    return path;
+  }
+
+  async downloadStream(path: string): Promise<Readable> {
+    this._operations.push({ type: 'download', path, streamed: true });
+    const data = this.files.get(path);
+    if (!data) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+    return Readable.from(Buffer.from(data));
+  }
+
+  async delete(path: string): Promise<void> {
+    this._operations.push({ type: 'delete', path });
+    if (!this.files.delete(path)) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+    this.modified.delete(path);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path);
+  }
+
+  async stat(path: string): Promise<StorageObjectInfo> {
+    const data = this.files.get(path);
+    if (!data) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+    return {
+      path,
+      size: data.length,
+      contentType: ContentTypeUtils.fromPath(path),
+      lastModified: this.modified.get(path)
+    };
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    return this.paths.filter(path => path.startsWith(prefix)).sort();
+  }
+
+  async copy(sourcePath: string, destinationPath: string): Promise<string> {
+    const data = this.files.get(sourcePath);
+    if (!data) {
+      throw new StorageError(`File not found: ${sourcePath}`);
+    }
+    this._operations.push({ type: 'copy', path: destinationPath, size: data.length });
+    this.store(destinationPath, Buffer.from(data));
+    return destinationPath;
+  }
+
+  get operations(): StorageOperation[] {
+    return [...this._operations];
+  }
+
+  get uploads(): StorageOperation[] {
+    return this._operations.filter(operation => operation.type === 'upload');
+  }
+
+  get downloads(): StorageOperation[] {
+    return this._operations.filter(operation => operation.type === 'download');
+  }
+
+  get deletes(): StorageOperation[] {
+    return this._operations.filter(operation => operation.type === 'delete');
+  }
+
+  get paths(): string[] {
+    return [...this.files.keys()];
+  }
+
+  has(path: string): boolean {
+    return this.files.has(path);
+  }
+
+  get(path: string): Buffer | undefined {
+    const data = this.files.get(path);
+    return data ? Buffer.from(data) : undefined;
+  }
+
+  reset(): void {
+    this.files.clear();
+    this.modified.clear();
+    this._operations.length = 0;
+  }
+
+  private store(path: string, data: Buffer): void {
+    this.files.set(path, data);
+    this.modified.set(path, new Date());
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { LocalFileSystemStorageDriver } from './local-file-system.storage-driver';
+import { StorageError } from '../errors/image-processing.errors';
+
+describe('LocalFileSystemStorageDriver', () => {
+  let rootDir: string;
+  let driver: LocalFileSystemStorageDriver;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(join(tmpdir(), 'image-processor-'));
+    driver = new LocalFileSystemStorageDriver({ rootDir });
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe('upload', () => {
+    it('should write file and create nested directories', async () => {
+      const data = Buffer.from('image data');
+
+      const result = await driver.upload('/uploads/originals/a/b/pic.jpg', data);
+
+      expect(result).toBe('/uploads/originals/a/b/pic.jpg');
+      const written = await fs.readFile(join(rootDir, 'uploads/originals/a/b/pic.jpg'));
+      expect(written).toEqual(data);
+    });
+
+    it('should not leave temp files behind', async () => {
+      await driver.upload('dir/pic.webp', Buffer.from('data'));
+
+      const entries = await fs.readdir(join(rootDir, 'dir'));
+      expect(entries).toEqual(['pic.webp']);
+    });
+
+    it('should overwrite existing file', async () => {
+      await driver.upload('pic.webp', Buffer.from('first'));
+      await driver.upload('pic.webp', Buffer.from('second'));
+
+      expect((await driver.download('pic.webp')).toString()).toBe('second');
+    });
+
+    it('should return public URL when prefix is configured', async () => {
+      driver = new LocalFileSystemStorageDriver({ rootDir, publicUrlPrefix: 'https://cdn.example.com/static/' });
+
+      const url = await driver.upload('/uploads/pic.webp', Buffer.from('data'));
+
+      expect(url).toBe('https://cdn.example.com/static/uploads/pic.webp');
+      expect((await driver.download(url)).toString()).toBe('data');
+    });
+
+    it('should reject path traversal', async () => {
+      const paths = ['../outside.jpg', '/uploads/../../outside.jpg', 'a/..\\..\\outside.jpg', './pic.jpg'];
+
+      for (const path of paths) {
+        await expect(driver.upload(path, Buffer.from('data'))).rejects.toThrow(StorageError);
+      }
+      await expect(fs.access(join(rootDir, '..', 'outside.jpg'))).rejects.toThrow();
+    });
+
+    it('should reject empty path', async () => {
+      await expect(driver.upload('/', Buffer.from('data'))).rejects.toThrow(StorageError);
+    });
+  });
+
+  describe('download', () => {
+    it('should read uploaded file', async () => {
+      const data = Buffer.from('image data');
+      await driver.upload('/uploads/pic.jpg', data);
+
+      expect(await driver.download('/uploads/pic.jpg')).toEqual(data);
+    });
+
+    it('should map missing file to StorageError', async () => {
+      await expect(driver.download('/missing.jpg')).rejects.toThrow(StorageError);
+      await expect(driver.download('/missing.jpg')).rejects.toThrow('File not found: /missing.jpg');
+    });
+
+    it('should reject path traversal', async () => {
+      await expect(driver.download('../etc/passwd')).rejects.toThrow('Path traversal is not allowed');
+    });
+  });
+
+  describe('uploadStream', () => {
+    it('should write streamed data atomically', async () => {
+      const stream = Readable.from([Buffer.from('chunk1-'), Buffer.from('chunk2')]);
+
+      const result = await driver.uploadStream('/uploads/a/pic.jpg', stream);
+
+      expect(result).toBe('/uploads/a/pic.jpg');
+      expect((await driver.download(result)).toString()).toBe('chunk1-chunk2');
+      expect(await fs.readdir(join(rootDir, 'uploads/a'))).toEqual(['pic.jpg']);
+    });
+
+    it('should remove temp file when stream fails', async () => {
+      const stream = new Readable({
+        read() {
+          this.destroy(new Error('stream failed'));
+        }
+      });
+
+      await expect(driver.uploadStream('dir/pic.jpg', stream)).rejects.toThrow(StorageError);
+      expect(await fs.readdir(join(rootDir, 'dir'))).toEqual([]);
+    });
+  });
+
+  describe('downloadStream', () => {
+    it('should stream uploaded file', async () => {
+      await driver.upload('/uploads/pic.jpg', Buffer.from('image data'));
+
+      const stream = await driver.downloadStream('/uploads/pic.jpg');
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('image data');
+    });
+
+    it('should map missing file to StorageError', async () => {
+      await expect(driver.downloadStream('/missing.jpg')).rejects.toThrow('File not found: /missing.jpg');
+    });
+  });
+
+  describe('exists', () => {
+    it('should report whether file exists', async () => {
+      await driver.upload('/uploads/pic.jpg', Buffer.from('data'));
+
+      expect(await driver.exists('/uploads/pic.jpg')).toBe(true);
+      expect(await driver.exists('/uploads/missing.jpg')).toBe(false);
+      expect(await driver.exists('/uploads')).toBe(false);
+    });
+  });
+
+  describe('stat', () => {
+    it('should return size, content type and modification date', async () => {
+      await driver.upload('/uploads/pic.webp', Buffer.from('image data'));
+
+      const info = await driver.stat('/uploads/pic.webp');
+
+      expect(info.path).toBe('/uploads/pic.webp');
+      expect(info.size).toBe(10);
+      expect(info.contentType).toBe('image/webp');
+      expect(info.lastModified).toBeInstanceOf(Date);
+    });
+
+    it('should map missing file to StorageError', async () => {
+      await expect(driver.stat('/missing.jpg')).rejects.toThrow('File not found: /missing.jpg');
+    });
+  });
+
+  describe('list', () => {
+    it('should list files by path prefix recursively', async () => {
+      await driver.upload('/uploads/abc_320w@1x.webp', Buffer.from('1'));
+      await driver.upload('/uploads/abc_640w@1x.webp', Buffer.from('2'));
+      await driver.upload('/uploads/nested/abc.jpg', Buffer.from('3'));
+      await driver.upload('/uploads/other.jpg', Buffer.from('4'));
+
+      expect(await driver.list('/uploads/abc_')).toEqual([
+        '/uploads/abc_320w@1x.webp',
+        '/uploads/abc_640w@1x.webp'
+      ]);
+      expect(await driver.list('/uploads/')).toHaveLength(4);
+      expect(await driver.list('/missing/')).toEqual([]);
+    });
+
+    it('should reject path traversal', async () => {
+      await expect(driver.list('../')).rejects.toThrow(StorageError);
+    });
+  });
+
+  describe('copy', () => {
+    it('should copy file to a new path', async () => {
+      await driver.upload('/uploads/pic.jpg', Buffer.from('data'));
+
+      const result = await driver.copy('/uploads/pic.jpg', '/backup/pic.jpg');
+
+      expect(result).toBe('/backup/pic.jpg');
+      expect((await driver.download('/backup/pic.jpg')).toString()).toBe('data');
+      expect(await driver.exists('/uploads/pic.jpg')).toBe(true);
+    });
+
+    it('should map missing source to StorageError', async () => {
+      await expect(driver.copy('/missing.jpg', '/copy.jpg')).rejects.toThrow('File not found: /missing.jpg');
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete uploaded file', async () => {
+      await driver.upload('/uploads/pic.jpg', Buffer.from('data'));
+
+      await driver.delete('/uploads/pic.jpg');
+
+      await expect(driver.download('/uploads/pic.jpg')).rejects.toThrow(StorageError);
+    });
+
+    it('should map missing file to StorageError', async () => {
+      await expect(driver.delete('/missing.jpg')).rejects.toThrow('File not found: /missing.jpg');
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { createWriteStream, Dirent, promises as fs, Stats } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageDriver, StorageObjectInfo } from '../interfaces/storage-driver.interface';
+import { StorageError } from '../errors/image-processing.errors';
+import { ContentTypeUtils } from '../utils/content-type.utils';
+
+const TEMP_FILE_PATTERN = /\.[0-9a-f-]{36}\.tmp$/;
+
+export interface LocalFileSystemStorageDriverOptions {
+  rootDir: string;
+  publicUrlPrefix?: string;
+}
+
+export class LocalFileSystemStorageDriver implements StorageDriver {
+  private readonly rootDir: string;
+  private readonly publicUrlPrefix?: string;
+
+  constructor(options: LocalFileSystemStorageDriverOptions) {
+    this.rootDir = resolve(options.rootDir);
+    this.publicUrlPrefix = options.publicUrlPrefix?.replace(/\/+$/, '');
+  }
+
+  async upload(path: string, data: Buffer): Promise<string> {
+    return this.writeAtomically(path, tempPath => fs.writeFile(tempPath, data));
+  }
+
+  async uploadStream(path: string, stream: Readable): Promise<string> {
+    return this.writeAtomically(path, tempPath => pipeline(stream, createWriteStream(tempPath)));
+  }
+
+  async download(path: string): Promise<Buffer> {
+    const fullPath = this.resolvePath(this.toRelativePath(path));
+
+    try {
+      return await fs.readFile(fullPath);
+    } catch (error) {
+      throw this.toStorageError(path, 'read', error);
+    }
+  }
+
+  async downloadStream(path: string): Promise<Readable> {
+    const fullPath = this.resolvePath(this.toRelativePath(path));
+
+    try {
+      const handle = await fs.open(fullPath, 'r');
+      return handle.createReadStream();
+    } catch (error) {
+      throw this.toStorageError(path, 'read', error);
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    const fullPath = this.resolvePath(this.toRelativePath(path));
+
+    try {
+      await fs.unlink(fullPath);
+    } catch (error) {
+      throw this.toStorageError(path, 'delete', error);
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const fullPath = this.resolvePath(this.toRelativePath(path));
+
+    try {
+      return (await fs.stat(fullPath)).isFile();
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw this.toStorageError(path, 'stat', error);
+    }
+  }
+
+  async stat(path: string): Promise<StorageObjectInfo> {
+    const relativePath = this.toRelativePath(path);
+    const fullPath = this.resolvePath(relativePath);
+
+    let stats: Stats;
+    try {
+      stats = await fs.stat(fullPath);
+    } catch (error) {
+      throw this.toStorageError(path, 'stat', error);
+    }
+    if (!stats.isFile()) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+
+    return {
+      path: this.getPublicUrl(relativePath),
+      size: stats.size,
+      contentType: ContentTypeUtils.fromPath(relativePath),
+      lastModified: stats.mtime
+    };
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const relativePrefix = prefix.replace(/^\/+/, '');
+    if (relativePrefix.split('/').includes('..')) {
+      throw new StorageError(`Path traversal is not allowed: ${prefix}`);
+    }
+    const directory = relativePrefix.includes('/')
+      ? relativePrefix.substring(0, relativePrefix.lastIndexOf('/'))
+      : '';
+
+    try {
+      const files = await this.walk(directory);
+      return files
+        .filter(file => file.startsWith(relativePrefix) && !TEMP_FILE_PATTERN.test(file))
+        .sort()
+        .map(file => this.getPublicUrl(file));
+    } catch (error) {
+      throw new StorageError(`Failed to list files with prefix ${prefix}: ${error.message}`, error as Error);
+    }
+  }
+
+  async copy(sourcePath: string, destinationPath: string): Promise<string> {
+    const sourceFullPath = this.resolvePath(this.toRelativePath(sourcePath));
+    if (!(await this.exists(sourcePath))) {
+      throw new StorageError(`File not found: ${sourcePath}`);
+    }
+    return this.writeAtomically(destinationPath, tempPath => fs.copyFile(sourceFullPath, tempPath));
+  }
+
+  getPublicUrl(path: string): string {
+    const relativePath = this.toRelativePath(path);
+    if (!this.publicUrlPrefix) {
+      return `/${relativePath}`;
+    }
+    return `${this.publicUrlPrefix}/${relativePath}`;
+  }
+
+  private async writeAtomically(path: string, write: (tempPath: string) => Promise<void>): Promise<string> {
+    const relativePath = this.toRelativePath(path);
+    const fullPath = this.resolvePath(relativePath);
+    const tempPath = `${fullPath}.${uuidv4()}.tmp`;
+
+    try {
+      await fs.mkdir(dirname(fullPath), { recursive: true });
+      await write(tempPath);
+      await fs.rename(tempPath, fullPath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw new StorageError(`Failed to write file ${path}: ${error.message}`, error as Error);
+    }
+
+    return this.getPublicUrl(relativePath);
+  }
+
+  // Returns file paths relative to rootDir, an absent directory yields no files
+  private async walk(directory: string): Promise<string[]> {
+    const fullPath = directory ? this.resolvePath(directory) : this.rootDir;
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(fullPath, { withFileTypes: true });
+    } catch (error) {
+      if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...await this.walk(entryPath));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  // Accepts both storage paths and URLs previously returned by upload()
+  private toRelativePath(path: string): string {
+    let relativePath = path;
+    if (this.publicUrlPrefix && relativePath.startsWith(`${this.publicUrlPrefix}/`)) {
+      relativePath = relativePath.substring(this.publicUrlPrefix.length);
+    }
+
+    const segments = relativePath.split(/[\\/]+/).filter(segment => segment.length > 0);
+    if (segments.length === 0) {
+      throw new StorageError(`Invalid storage path: ${path}`);
+    }
+    if (segments.some(segment => segment === '..' || segment === '.' || segment.includes('\0'))) {
+      throw new StorageError(`Path traversal is not allowed: ${path}`);
+    }
+
+    return segments.join('/');
+  }
+
+  private resolvePath(relativePath: string): string {
+    const fullPath = resolve(join(this.rootDir, relativePath));
+    if (!fullPath.startsWith(this.rootDir + sep)) {
+      throw new StorageError(`Path traversal is not allowed: ${relativePath}`);
+    }
+    return fullPath;
+  }
+
+  private toStorageError(path: string, operation: string, error: NodeJS.ErrnoException): StorageError {
+    if (error.code === 'ENOENT') {
+      return new StorageError(`File not found: ${path}`, error);
+    }
+    return new StorageError(`Failed to ${operation} file ${path}: ${error.message}`, error);
+  }
+}
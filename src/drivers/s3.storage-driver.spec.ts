@@ -0,0 +1,391 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { createHash } from 'crypto';
+import { S3StorageDriver, S3StorageDriverOptions } from './s3.storage-driver';
+import { StorageError } from '../errors/image-processing.errors';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  size: number;
+}
+
+interface StoredObject {
+  body: Buffer;
+  headers: IncomingMessage['headers'];
+  lastModified: Date;
+}
+
+const LIST_PAGE_SIZE = 2;
+
+// Minimal path-style S3 stand-in, enough to exercise the driver the way MinIO would
+class FakeS3Server {
+  readonly objects = new Map<string, StoredObject>();
+  readonly requests: RecordedRequest[] = [];
+  private readonly uploads = new Map<string, { key: string; headers: IncomingMessage['headers']; parts: Map<number, Buffer> }>();
+  private server: Server;
+  private nextUploadId = 1;
+
+  get endpoint(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        this.requests.push({ method: req.method, url: req.url, headers: req.headers, size: body.length });
+
+        if (!String(req.headers.authorization).startsWith('AWS4-HMAC-SHA256 Credential=test-key/')) {
+          res.writeHead(403).end('<Error><Code>AccessDenied</Code><Message>Bad credentials</Message></Error>');
+          return;
+        }
+        if (req.headers['x-amz-content-sha256'] !== createHash('sha256').update(body).digest('hex')) {
+          res.writeHead(400).end('<Error><Code>XAmzContentSHA256Mismatch</Code><Message>Hash mismatch</Message></Error>');
+          return;
+        }
+
+        const url = new URL(req.url, 'http://localhost');
+        const key = decodeURIComponent(url.pathname.substring(1));
+        const uploadId = url.searchParams.get('uploadId');
+
+        if (req.method === 'POST' && url.searchParams.has('uploads')) {
+          const id = `upload-${this.nextUploadId++}`;
+          this.uploads.set(id, { key, headers: req.headers, parts: new Map() });
+          res.writeHead(200).end(`<InitiateMultipartUploadResult><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`);
+        } else if (req.method === 'PUT' && uploadId) {
+          const partNumber = Number(url.searchParams.get('partNumber'));
+          this.uploads.get(uploadId).parts.set(partNumber, body);
+          res.writeHead(200, { ETag: `"etag-${partNumber}"` }).end();
+        } else if (req.method === 'POST' && uploadId) {
+          const upload = this.uploads.get(uploadId);
+          const partNumbers = [...body.toString().matchAll(/<PartNumber>(\d+)<\/PartNumber>/g)].map(match => Number(match[1]));
+          const parts = partNumbers.map(partNumber => upload.parts.get(partNumber));
+          this.objects.set(upload.key, { body: Buffer.concat(parts), headers: upload.headers, lastModified: new Date() });
+          this.uploads.delete(uploadId);
+          res.writeHead(200).end('<CompleteMultipartUploadResult></CompleteMultipartUploadResult>');
+        } else if (req.method === 'DELETE' && uploadId) {
+          this.uploads.delete(uploadId);
+          res.writeHead(204).end();
+        } else if (req.method === 'PUT' && req.headers['x-amz-copy-source']) {
+          const source = this.objects.get(decodeURIComponent(String(req.headers['x-amz-copy-source']).substring(1)));
+          if (!source) {
+            res.writeHead(404).end('<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+            return;
+          }
+          this.objects.set(key, { ...source, lastModified: new Date() });
+          res.writeHead(200).end('<CopyObjectResult><ETag>"etag"</ETag></CopyObjectResult>');
+        } else if (req.method === 'PUT') {
+          this.objects.set(key, { body, headers: req.headers, lastModified: new Date() });
+          res.writeHead(200, { ETag: '"etag"' }).end();
+        } else if (req.method === 'GET' && url.searchParams.get('list-type') === '2') {
+          const bucket = key.replace(/\/$/, '');
+          const keys = [...this.objects.keys()]
+            .filter(objectKey => objectKey.startsWith(`${bucket}/${url.searchParams.get('prefix')}`))
+            .map(objectKey => objectKey.substring(bucket.length + 1))
+            .sort();
+          const start = Number(url.searchParams.get('continuation-token') || 0);
+          const page = keys.slice(start, start + LIST_PAGE_SIZE);
+          const truncated = start + LIST_PAGE_SIZE < keys.length;
+          res.writeHead(200).end(
+            '<ListBucketResult>' +
+            page.map(objectKey => `<Contents><Key>${objectKey.replace(/&/g, '&amp;')}</Key></Contents>`).join('') +
+            `<IsTruncated>${truncated}</IsTruncated>` +
+            (truncated ? `<NextContinuationToken>${start + LIST_PAGE_SIZE}</NextContinuationToken>` : '') +
+            '</ListBucketResult>'
+          );
+        } else if (req.method === 'HEAD') {
+          const object = this.objects.get(key);
+          if (!object) {
+            res.writeHead(404).end();
+            return;
+          }
+          res.writeHead(200, {
+            'Content-Length': object.body.length,
+            'Content-Type': object.headers['content-type'],
+            'Last-Modified': object.lastModified.toUTCString()
+          }).end();
+        } else if (req.method === 'GET') {
+          const object = this.objects.get(key);
+          if (!object) {
+            res.writeHead(404).end('<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+            return;
+          }
+          res.writeHead(200).end(object.body);
+        } else if (req.method === 'DELETE') {
+          this.objects.delete(key);
+          res.writeHead(204).end();
+        } else {
+          res.writeHead(405).end();
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reset(): void {
+    this.objects.clear();
+    this.requests.length = 0;
+    this.uploads.clear();
+  }
+}
+
+describe('S3StorageDriver', () => {
+  const fakeS3 = new FakeS3Server();
+  let options: S3StorageDriverOptions;
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    await fakeS3.start();
+  });
+
+  afterAll(async () => {
+    await fakeS3.stop();
+  });
+
+  beforeEach(() => {
+    fakeS3.reset();
+    options = {
+      bucket: 'images',
+      endpoint: fakeS3.endpoint,
+      forcePathStyle: true,
+      accessKeyId: 'test-key',
+      secretAccessKey: 'test-secret'
+    };
+    driver = new S3StorageDriver(options);
+  });
+
+  describe('upload', () => {
+    it('should put object under bucket with content type', async () => {
+      const data = Buffer.from('image data');
+
+      const result = await driver.upload('/uploads/originals/pic.webp', data);
+
+      expect(result).toBe('/uploads/originals/pic.webp');
+      const object = fakeS3.objects.get('images/uploads/originals/pic.webp');
+      expect(object.body).toEqual(data);
+      expect(object.headers['content-type']).toBe('image/webp');
+      expect(object.headers['cache-control']).toBeUndefined();
+    });
+
+    it('should apply prefix and cache control', async () => {
+      driver = new S3StorageDriver({ ...options, prefix: '/media/', cacheControl: 'public, max-age=31536000' });
+
+      await driver.upload('pic.avif', Buffer.from('data'));
+
+      const object = fakeS3.objects.get('images/media/pic.avif');
+      expect(object.headers['cache-control']).toBe('public, max-age=31536000');
+      expect(object.headers['content-type']).toBe('image/avif');
+      expect(object.headers['x-amz-date']).toBeDefined();
+    });
+
+    it('should return public URL when prefix is configured', async () => {
+      driver = new S3StorageDriver({ ...options, prefix: 'media', publicUrlPrefix: 'https://cdn.example.com' });
+
+      const url = await driver.upload('/pic.webp', Buffer.from('data'));
+
+      expect(url).toBe('https://cdn.example.com/media/pic.webp');
+      expect((await driver.download(url)).toString()).toBe('data');
+    });
+
+    it('should use multipart upload for large buffers', async () => {
+      const partSize = 5 * 1024 * 1024;
+      driver = new S3StorageDriver({ ...options, partSize, multipartThreshold: partSize });
+      const data = Buffer.alloc(partSize * 2 + 1024, 7);
+
+      await driver.upload('big.png', data);
+
+      const object = fakeS3.objects.get('images/big.png');
+      expect(object.body.equals(data)).toBe(true);
+      expect(object.headers['content-type']).toBe('image/png');
+      const partRequests = fakeS3.requests.filter(request => request.url.includes('partNumber='));
+      expect(partRequests.map(request => request.size)).toEqual([partSize, partSize, 1024]);
+    });
+
+    it('should map S3 errors to StorageError', async () => {
+      driver = new S3StorageDriver({ ...options, accessKeyId: 'wrong-key' });
+
+      await expect(driver.upload('pic.webp', Buffer.from('data')))
+        .rejects.toThrow('Failed to upload pic.webp: AccessDenied: Bad credentials');
+    });
+  });
+
+  describe('uploadStream', () => {
+    it('should put small streams as a single object', async () => {
+      await driver.uploadStream('pic.webp', Readable.from([Buffer.from('a'), Buffer.from('b')]));
+
+      expect(fakeS3.objects.get('images/pic.webp').body.toString()).toBe('ab');
+      expect(fakeS3.requests.map(request => request.method)).toEqual(['PUT']);
+    });
+
+    it('should upload large streams in parts', async () => {
+      const partSize = 5 * 1024 * 1024;
+      driver = new S3StorageDriver({ ...options, partSize });
+      const chunk = Buffer.alloc(1024 * 1024, 3);
+      const chunks = new Array(11).fill(chunk);
+
+      await driver.uploadStream('big.avif', Readable.from(chunks));
+
+      const object = fakeS3.objects.get('images/big.avif');
+      expect(object.body.length).toBe(11 * chunk.length);
+      expect(object.headers['content-type']).toBe('image/avif');
+      const partRequests = fakeS3.requests.filter(request => request.url.includes('partNumber='));
+      expect(partRequests.map(request => request.size)).toEqual([partSize, partSize, chunk.length]);
+    });
+
+    it('should abort multipart upload when stream fails', async () => {
+      const partSize = 5 * 1024 * 1024;
+      driver = new S3StorageDriver({ ...options, partSize });
+      async function* failingChunks() {
+        yield Buffer.alloc(partSize);
+        throw new Error('stream failed');
+      }
+
+      await expect(driver.uploadStream('big.avif', Readable.from(failingChunks())))
+        .rejects.toThrow('Failed to upload big.avif: stream failed');
+      expect(fakeS3.requests[fakeS3.requests.length - 1].method).toBe('DELETE');
+      expect(fakeS3.objects.has('images/big.avif')).toBe(false);
+    });
+  });
+
+  describe('downloadStream', () => {
+    it('should stream object body', async () => {
+      await driver.upload('pic.jpg', Buffer.from('image data'));
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of await driver.downloadStream('pic.jpg')) {
+        chunks.push(Buffer.from(chunk));
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('image data');
+    });
+
+    it('should map missing object to StorageError', async () => {
+      await expect(driver.downloadStream('missing.jpg')).rejects.toThrow('File not found: missing.jpg');
+    });
+
+    it('should map a successful response without a body to StorageError', async () => {
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      try {
+        await expect(driver.downloadStream('pic.jpg')).rejects.toThrow(StorageError);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('download', () => {
+    it('should get uploaded object', async () => {
+      await driver.upload('dir/pic name.jpg', Buffer.from('data'));
+
+      expect((await driver.download('dir/pic name.jpg')).toString()).toBe('data');
+    });
+
+    it('should map missing object to StorageError', async () => {
+      await expect(driver.download('missing.jpg')).rejects.toThrow(StorageError);
+      await expect(driver.download('missing.jpg')).rejects.toThrow('File not found: missing.jpg');
+    });
+
+    it('should map network errors to StorageError', async () => {
+      driver = new S3StorageDriver({ ...options, endpoint: 'http://127.0.0.1:1' });
+
+      await expect(driver.download('pic.jpg')).rejects.toThrow(StorageError);
+    });
+  });
+
+  describe('exists', () => {
+    it('should report whether object exists', async () => {
+      await driver.upload('pic.jpg', Buffer.from('data'));
+
+      expect(await driver.exists('pic.jpg')).toBe(true);
+      expect(await driver.exists('missing.jpg')).toBe(false);
+    });
+  });
+
+  describe('stat', () => {
+    it('should return object metadata from HEAD', async () => {
+      await driver.upload('/dir/pic.webp', Buffer.from('image data'));
+
+      const info = await driver.stat('/dir/pic.webp');
+
+      expect(info.path).toBe('/dir/pic.webp');
+      expect(info.size).toBe(10);
+      expect(info.contentType).toBe('image/webp');
+      expect(info.lastModified).toBeInstanceOf(Date);
+    });
+
+    it('should map missing object to StorageError', async () => {
+      await expect(driver.stat('missing.jpg')).rejects.toThrow('File not found: missing.jpg');
+    });
+  });
+
+  describe('list', () => {
+    it('should list keys by prefix across pages', async () => {
+      driver = new S3StorageDriver({ ...options, prefix: 'media' });
+      for (const name of ['a_1.webp', 'a_2.webp', 'a_3&4.webp', 'b.webp']) {
+        await driver.upload(`/uploads/${name}`, Buffer.from(name));
+      }
+
+      expect(await driver.list('/uploads/a_')).toEqual([
+        '/uploads/a_1.webp',
+        '/uploads/a_2.webp',
+        '/uploads/a_3&4.webp'
+      ]);
+    });
+  });
+
+  describe('copy', () => {
+    it('should copy object server-side', async () => {
+      await driver.upload('pic.jpg', Buffer.from('data'));
+
+      const result = await driver.copy('pic.jpg', 'backup/pic.jpg');
+
+      expect(result).toBe('backup/pic.jpg');
+      expect(fakeS3.objects.get('images/backup/pic.jpg').body.toString()).toBe('data');
+      expect(fakeS3.requests[fakeS3.requests.length - 1].size).toBe(0);
+    });
+
+    it('should map missing source to StorageError', async () => {
+      await expect(driver.copy('missing.jpg', 'copy.jpg')).rejects.toThrow('File not found: missing.jpg');
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete object', async () => {
+      await driver.upload('pic.jpg', Buffer.from('data'));
+
+      await driver.delete('pic.jpg');
+
+      expect(fakeS3.objects.has('images/pic.jpg')).toBe(false);
+    });
+  });
+
+  describe('getObjectUrl', () => {
+    it('should build path-style URLs', () => {
+      expect(driver.getObjectUrl('/a/pic.jpg')).toBe(`${fakeS3.endpoint}/images/a/pic.jpg`);
+    });
+
+    it('should build virtual-hosted URLs by default on AWS', () => {
+      driver = new S3StorageDriver({
+        bucket: 'images',
+        region: 'eu-west-1',
+        prefix: 'media',
+        accessKeyId: 'key',
+        secretAccessKey: 'secret'
+      });
+
+      expect(driver.getObjectUrl('pic.jpg')).toBe('https://images.s3.eu-west-1.amazonaws.com/media/pic.jpg');
+    });
+  });
+});
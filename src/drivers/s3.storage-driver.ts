@@ -0,0 +1,390 @@
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { StorageDriver, StorageObjectInfo } from '../interfaces/storage-driver.interface';
+import { StorageError } from '../errors/image-processing.errors';
+import { AwsCredentials, AwsSignatureUtils } from '../utils/aws-signature.utils';
+import { ContentTypeUtils } from '../utils/content-type.utils';
+
+export interface S3StorageDriverOptions extends AwsCredentials {
+  bucket: string;
+  region?: string;
+  prefix?: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  cacheControl?: string;
+  publicUrlPrefix?: string;
+  multipartThreshold?: number;
+  partSize?: number;
+}
+
+interface S3RequestOptions {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: Buffer;
+}
+
+interface S3Response {
+  status: number;
+  headers: Headers;
+  body: Buffer;
+}
+
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+export class S3StorageDriver implements StorageDriver {
+  private readonly bucket: string;
+  private readonly region: string;
+  private readonly prefix: string;
+  private readonly endpoint: URL;
+  private readonly forcePathStyle: boolean;
+  private readonly cacheControl?: string;
+  private readonly publicUrlPrefix?: string;
+  private readonly multipartThreshold: number;
+  private readonly partSize: number;
+  private readonly credentials: AwsCredentials;
+
+  constructor(options: S3StorageDriverOptions) {
+    this.bucket = options.bucket;
+    this.region = options.region || 'us-east-1';
+    this.prefix = (options.prefix || '').replace(/^\/+|\/+$/g, '');
+    this.endpoint = new URL(options.endpoint || `https://s3.${this.region}.amazonaws.com`);
+    this.forcePathStyle = options.forcePathStyle ?? Boolean(options.endpoint);
+    this.cacheControl = options.cacheControl;
+    this.publicUrlPrefix = options.publicUrlPrefix?.replace(/\/+$/, '');
+    this.partSize = Math.max(options.partSize || 8 * 1024 * 1024, MIN_PART_SIZE);
+    this.multipartThreshold = options.multipartThreshold || this.partSize;
+    this.credentials = {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+      sessionToken: options.sessionToken
+    };
+  }
+
+  async upload(path: string, data: Buffer): Promise<string> {
+    const key = this.toKey(path);
+
+    if (data.length > this.multipartThreshold) {
+      await this.multipartUpload(key, data);
+    } else {
+      const response = await this.send('PUT', key, { body: data, headers: this.uploadHeaders(key) });
+      this.assertOk(response, path, 'upload');
+    }
+
+    return this.toResultPath(path);
+  }
+
+  // Streams are buffered one part at a time, so memory stays bounded by partSize
+  async uploadStream(path: string, stream: Readable): Promise<string> {
+    const key = this.toKey(path);
+    const parts: string[] = [];
+    let uploadId: string | undefined;
+    let pending: Buffer[] = [];
+    let pendingLength = 0;
+
+    try {
+      for await (const chunk of stream) {
+        pending.push(Buffer.from(chunk));
+        pendingLength += chunk.length;
+        if (pendingLength < this.partSize) {
+          continue;
+        }
+
+        let buffer = Buffer.concat(pending);
+        while (buffer.length >= this.partSize) {
+          uploadId = uploadId || await this.createMultipartUpload(key);
+          parts.push(await this.uploadPart(key, uploadId, parts.length + 1, buffer.subarray(0, this.partSize)));
+          buffer = buffer.subarray(this.partSize);
+        }
+        pending = [buffer];
+        pendingLength = buffer.length;
+      }
+
+      const remainder = Buffer.concat(pending);
+      if (!uploadId) {
+        const response = await this.send('PUT', key, { body: remainder, headers: this.uploadHeaders(key) });
+        this.assertOk(response, path, 'upload');
+      } else {
+        if (remainder.length > 0) {
+          parts.push(await this.uploadPart(key, uploadId, parts.length + 1, remainder));
+        }
+        await this.completeMultipartUpload(key, uploadId, parts);
+      }
+    } catch (error) {
+      if (uploadId) {
+        await this.abortMultipartUpload(key, uploadId);
+      }
+      if (error instanceof StorageError) {
+        throw error;
+      }
+      throw new StorageError(`Failed to upload ${path}: ${error.message}`, error as Error);
+    }
+
+    return this.toResultPath(path);
+  }
+
+  async download(path: string): Promise<Buffer> {
+    const response = await this.send('GET', this.toKey(path));
+    this.assertOk(response, path, 'download');
+    return response.body;
+  }
+
+  async downloadStream(path: string): Promise<Readable> {
+    const response = await this.request('GET', this.toKey(path));
+    if (!response.ok) {
+      this.assertOk(await this.readResponse(response), path, 'download');
+    }
+    if (!response.body) {
+      throw new StorageError(`Failed to download ${path}: HTTP ${response.status} without a body`);
+    }
+    return Readable.fromWeb(response.body as unknown as NodeReadableStream);
+  }
+
+  // S3 deletes are idempotent, so deleting a missing object succeeds
+  async delete(path: string): Promise<void> {
+    const response = await this.send('DELETE', this.toKey(path));
+    this.assertOk(response, path, 'delete');
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const response = await this.send('HEAD', this.toKey(path));
+    if (response.status === 404) {
+      return false;
+    }
+    this.assertOk(response, path, 'check');
+    return true;
+  }
+
+  async stat(path: string): Promise<StorageObjectInfo> {
+    const response = await this.send('HEAD', this.toKey(path));
+    this.assertOk(response, path, 'stat');
+
+    const lastModified = response.headers.get('last-modified');
+    return {
+      path: this.toResultPath(path),
+      size: Number(response.headers.get('content-length') || 0),
+      contentType: response.headers.get('content-type') || undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined
+    };
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const normalizedPrefix = prefix.replace(/^\/+/, '');
+    const keyPrefix = this.prefix ? `${this.prefix}/${normalizedPrefix}` : normalizedPrefix;
+    const paths: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix: keyPrefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+      const response = await this.send('GET', '', { query });
+      this.assertOk(response, prefix, 'list');
+
+      const body = response.body.toString('utf8');
+      for (const match of body.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+        const key = this.decodeXml(match[1]);
+        const relativeKey = this.prefix ? key.substring(this.prefix.length + 1) : key;
+        paths.push(this.toResultPath(`/${relativeKey}`));
+      }
+
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(body)
+        ? this.readXmlTag(response.body, 'NextContinuationToken')
+        : undefined;
+    } while (continuationToken);
+
+    return paths;
+  }
+
+  async copy(sourcePath: string, destinationPath: string): Promise<string> {
+    const sourceKey = this.toKey(sourcePath);
+    const encodedSource = sourceKey.split('/').map(segment => AwsSignatureUtils.encodeRfc3986(segment)).join('/');
+    const response = await this.send('PUT', this.toKey(destinationPath), {
+      headers: { 'x-amz-copy-source': `/${this.bucket}/${encodedSource}` }
+    });
+
+    this.assertOk(response, sourcePath, 'copy');
+
+    // CopyObject can report a failure with 200 status and an <Error> body
+    const errorCode = this.readXmlTag(response.body, 'Code');
+    if (errorCode) {
+      throw new StorageError(`Failed to copy ${sourcePath}: ${errorCode}: ${this.readXmlTag(response.body, 'Message')}`);
+    }
+
+    return this.toResultPath(destinationPath);
+  }
+
+  getObjectUrl(path: string): string {
+    return this.buildUrl(this.toKey(path)).toString();
+  }
+
+  getPublicUrl(path: string): string {
+    const key = this.toKey(path);
+    return this.publicUrlPrefix ? `${this.publicUrlPrefix}/${key}` : this.getObjectUrl(path);
+  }
+
+  private async multipartUpload(key: string, data: Buffer): Promise<void> {
+    const uploadId = await this.createMultipartUpload(key);
+
+    try {
+      const parts: string[] = [];
+      for (let offset = 0; offset < data.length; offset += this.partSize) {
+        parts.push(await this.uploadPart(key, uploadId, parts.length + 1, data.subarray(offset, offset + this.partSize)));
+      }
+      await this.completeMultipartUpload(key, uploadId, parts);
+    } catch (error) {
+      await this.abortMultipartUpload(key, uploadId);
+      throw error;
+    }
+  }
+
+  private async createMultipartUpload(key: string): Promise<string> {
+    const response = await this.send('POST', key, { query: { uploads: '' }, headers: this.uploadHeaders(key) });
+    this.assertOk(response, key, 'start multipart upload of');
+
+    const uploadId = this.readXmlTag(response.body, 'UploadId');
+    if (!uploadId) {
+      throw new StorageError(`Failed to start multipart upload of ${key}: missing UploadId`);
+    }
+    return uploadId;
+  }
+
+  // Returns the <Part> element for CompleteMultipartUpload
+  private async uploadPart(key: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    const response = await this.send('PUT', key, {
+      query: { partNumber: String(partNumber), uploadId },
+      body
+    });
+    this.assertOk(response, key, `upload part ${partNumber} of`);
+    return `<Part><PartNumber>${partNumber}</PartNumber><ETag>${response.headers.get('etag')}</ETag></Part>`;
+  }
+
+  private async completeMultipartUpload(key: string, uploadId: string, parts: string[]): Promise<void> {
+    const response = await this.send('POST', key, {
+      query: { uploadId },
+      body: Buffer.from(`<CompleteMultipartUpload>${parts.join('')}</CompleteMultipartUpload>`),
+      headers: { 'content-type': 'application/xml' }
+    });
+    this.assertOk(response, key, 'complete multipart upload of');
+  }
+
+  private async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    await this.send('DELETE', key, { query: { uploadId } }).catch(() => undefined);
+  }
+
+  private async send(method: string, key: string, options: S3RequestOptions = {}): Promise<S3Response> {
+    const response = await this.request(method, key, options);
+    return this.readResponse(response);
+  }
+
+  private async request(method: string, key: string, options: S3RequestOptions = {}): Promise<Response> {
+    const url = this.buildUrl(key);
+    for (const [name, value] of Object.entries(options.query || {})) {
+      url.searchParams.set(name, value);
+    }
+
+    const headers = AwsSignatureUtils.signRequest(
+      {
+        method,
+        url,
+        headers: options.headers,
+        payloadHash: AwsSignatureUtils.sha256Hex(options.body || '')
+      },
+      this.credentials,
+      this.region
+    );
+    delete headers['host'];
+
+    try {
+      const body = options.body ? new Uint8Array(options.body) : undefined;
+      return await fetch(url, { method, headers, body });
+    } catch (error) {
+      throw new StorageError(`S3 request ${method} ${key} failed: ${error.message}`, error as Error);
+    }
+  }
+
+  private async readResponse(response: Response): Promise<S3Response> {
+    try {
+      return {
+        status: response.status,
+        headers: response.headers,
+        body: Buffer.from(await response.arrayBuffer())
+      };
+    } catch (error) {
+      throw new StorageError(`Failed to read S3 response: ${error.message}`, error as Error);
+    }
+  }
+
+  private buildUrl(key: string): URL {
+    const url = new URL(this.endpoint.toString());
+    const basePath = url.pathname.replace(/\/+$/, '');
+    const encodedKey = key.split('/').map(segment => AwsSignatureUtils.encodeRfc3986(segment)).join('/');
+
+    if (this.forcePathStyle) {
+      url.pathname = `${basePath}/${this.bucket}/${encodedKey}`;
+    } else {
+      url.hostname = `${this.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${encodedKey}`;
+    }
+    return url;
+  }
+
+  // Accepts both storage paths and URLs previously returned by upload()
+  private toKey(path: string): string {
+    let relativePath = path;
+    if (this.publicUrlPrefix && relativePath.startsWith(`${this.publicUrlPrefix}/`)) {
+      relativePath = relativePath.substring(this.publicUrlPrefix.length);
+      if (this.prefix && relativePath.startsWith(`/${this.prefix}/`)) {
+        relativePath = relativePath.substring(this.prefix.length + 1);
+      }
+    }
+
+    const normalized = relativePath.replace(/^\/+/, '');
+    if (!normalized) {
+      throw new StorageError(`Invalid storage path: ${path}`);
+    }
+    return this.prefix ? `${this.prefix}/${normalized}` : normalized;
+  }
+
+  private toResultPath(path: string): string {
+    return this.publicUrlPrefix ? this.getPublicUrl(path) : path;
+  }
+
+  private uploadHeaders(key: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'content-type': ContentTypeUtils.fromPath(key)
+    };
+    if (this.cacheControl) {
+      headers['cache-control'] = this.cacheControl;
+    }
+    return headers;
+  }
+
+  private assertOk(response: S3Response, path: string, operation: string): void {
+    if (response.status >= 200 && response.status < 300) {
+      return;
+    }
+
+    const code = this.readXmlTag(response.body, 'Code');
+    if (response.status === 404 && (!code || code === 'NoSuchKey')) {
+      throw new StorageError(`File not found: ${path}`);
+    }
+
+    const message = this.readXmlTag(response.body, 'Message') || `HTTP ${response.status}`;
+    throw new StorageError(`Failed to ${operation} ${path}: ${code ? `${code}: ` : ''}${message}`);
+  }
+
+  private readXmlTag(body: Buffer, tag: string): string | undefined {
+    const match = body.toString('utf8').match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+    return match ? this.decodeXml(match[1]) : undefined;
+  }
+
+  private decodeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
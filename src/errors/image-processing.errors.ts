@@ -12,8 +12,51 @@ export class UnsupportedImageFormatError extends ImageProcessingError {
 }
 
 export class ImageValidationError extends ImageProcessingError {
+  constructor(message: string, code: string = 'VALIDATION_ERROR') {
+    super(message, code);
+  }
+}
+
+export class ImageContentMismatchError extends ImageValidationError {
+  constructor(
+    public readonly declaredFormat: string,
+    public readonly detectedFormat: string | null
+  ) {
+    super(
+      `File content (${detectedFormat || 'unrecognized'}) does not match the declared format ${declaredFormat}`,
+      'CONTENT_MISMATCH'
+    );
+  }
+}
+
+export class ImageLimitError extends ImageValidationError {
+  constructor(
+    public readonly limit: string,
+    public readonly actual: number,
+    public readonly allowed: number
+  ) {
+    super(
+      `Image ${limit.startsWith('min') ? 'is below' : 'exceeds'} the ${limit} limit: ${actual} (allowed ${allowed})`,
+      'LIMIT_VIOLATION'
+    );
+  }
+}
+
+export class SvgRejectedError extends ImageValidationError {
+  constructor() {
+    super('SVG uploads are not allowed by the configured SVG policy', 'SVG_REJECTED');
+  }
+}
+
+export class UnknownPresetError extends ImageProcessingError {
+  constructor(public readonly preset: string) {
+    super(`Unknown processing preset: ${preset}`, 'UNKNOWN_PRESET');
+  }
+}
+
+export class InvalidConfigurationError extends ImageProcessingError {
   constructor(message: string) {
-    super(message, 'VALIDATION_ERROR');
+    super(message, 'INVALID_CONFIGURATION');
   }
 }
 
@@ -24,7 +67,13 @@ export class ImageProcessingFailedError extends ImageProcessingError {
 }
 
 export class StorageError extends ImageProcessingError {
-  constructor(message: string, public readonly originalError?: Error) {
-    super(message, 'STORAGE_ERROR');
+  constructor(message: string, public readonly originalError?: Error, code: string = 'STORAGE_ERROR') {
+    super(message, code);
+  }
+}
+
+export class StorageCapabilityError extends StorageError {
+  constructor(public readonly operation: string) {
+    super(`Storage driver does not support the "${operation}" operation`, undefined, 'STORAGE_CAPABILITY_UNSUPPORTED');
   }
 }
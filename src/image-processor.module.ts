@@ -1,12 +1,23 @@
 import { Module, DynamicModule } from '@nestjs/common';
-import { ImagePipelineService, STORAGE_DRIVER } from './services/image-pipeline.service';
+import {
+  ImagePipelineService,
+  STORAGE_DRIVER,
+  NAMING_STRATEGY,
+  PROCESSING_PRESETS,
+} from './services/image-pipeline.service';
 import { ImageProcessorService } from './services/image-processor.service';
 import { ImageProcessingConfig } from './config/image-processing.config';
 import { StorageDriver } from './interfaces/storage-driver.interface';
+import { NamingStrategy } from './interfaces/naming-strategy.interface';
+import { ImageProcessingPresets } from './interfaces/processing-preset.interface';
+import { TemplateNamingStrategy } from './strategies/template-naming.strategy';
 
 export interface ImageProcessorModuleOptions {
   storageDriver: StorageDriver;
   config?: ImageProcessingConfig;
+  namingStrategy?: NamingStrategy;
+  // Named variant sets selected per call: processImage(buffer, filename, { preset: 'avatar' })
+  presets?: ImageProcessingPresets;
 }
 
 @Module({})
@@ -23,6 +34,14 @@ export class ImageProcessorModule {
           provide: ImageProcessingConfig,
           useValue: options.config || new ImageProcessingConfig(),
         },
+        {
+          provide: NAMING_STRATEGY,
+          useValue: options.namingStrategy || new TemplateNamingStrategy(),
+        },
+        {
+          provide: PROCESSING_PRESETS,
+          useValue: options.presets || {},
+        },
         ImageProcessorService,
         ImagePipelineService,
       ],
@@ -1,20 +1,97 @@
 // Main module
-export { ImageProcessorModule } from './image-processor.module';
+export { ImageProcessorModule, ImageProcessorModuleOptions } from './image-processor.module';
 
 // Services
-export { ImagePipelineService, STORAGE_DRIVER } from './services/image-pipeline.service';
-export { ImageProcessorService } from './services/image-processor.service';
+export {
+  ImagePipelineService,
+  STORAGE_DRIVER,
+  NAMING_STRATEGY,
+  PROCESSING_PRESETS,
+} from './services/image-pipeline.service';
+export {
+  ImageProcessorService,
+  ProcessedImage,
+  DecodedImage,
+  ProcessImageOptions,
+  OutputMetadata,
+  ImageCapabilities,
+} from './services/image-processor.service';
 
 // Interfaces
-export { StorageDriver } from './interfaces/storage-driver.interface';
+export { StorageDriver, StorageObjectInfo } from './interfaces/storage-driver.interface';
+export {
+  NamingStrategy,
+  OriginalNamingContext,
+  VariantNamingContext,
+} from './interfaces/naming-strategy.interface';
+export { ImageProcessingPreset, ImageProcessingPresets } from './interfaces/processing-preset.interface';
 export { 
   ImageProcessingResult, 
+  ImageProcessingOptions,
+  FocalPoint,
+  RegionOfInterest,
+  GeneratedVariant,
+  OriginalImageMetadata,
   ImageSize, 
+  ImageFit,
+  ImagePosition,
   ImageFormat, 
   DPRConfig,
+  ImageLimits,
+  SvgPolicy,
+  AnimationOptions,
+  PlaceholderOptions,
+  ImagePlaceholders,
+  PaletteOptions,
+  PaletteConfig,
+  ImagePalette,
+  PaletteColor,
+  MetadataOptions,
+  MetadataField,
+  ImageInfo,
+  ImageInfoOptions,
+  ImageAnimationInfo,
+  ImageDeviceInfo,
+  ImageExposureInfo,
+  ImageLocation,
   ImageProcessingConfig as IImageProcessingConfig 
 } from './interfaces/image-processing.interface';
 
+// Naming strategies
+export {
+  TemplateNamingStrategy,
+  TemplateNamingStrategyOptions,
+} from './strategies/template-naming.strategy';
+
+// Storage drivers
+export {
+  LocalFileSystemStorageDriver,
+  LocalFileSystemStorageDriverOptions,
+} from './drivers/local-file-system.storage-driver';
+export { InMemoryStorageDriver, StorageOperation } from './drivers/in-memory.storage-driver';
+export { S3StorageDriver, S3StorageDriverOptions } from './drivers/s3.storage-driver';
+
+// Testing
+export {
+  ImageProcessorTestingModule,
+  ImageProcessorTestingModuleOptions,
+} from './testing/image-processor-testing.module';
+export {
+  ImageFixtures,
+  FixtureFormat,
+  SolidColorFixtureOptions,
+  AlphaFixtureOptions,
+  ExifRotatedFixtureOptions,
+  OrientedFixtureOptions,
+  ExifFixtureOptions,
+  CameraPhotoFixtureOptions,
+  ColorSpaceFixtureOptions,
+  PixelBombFixtureOptions,
+  AnimatedFixtureOptions,
+  SvgFixtureOptions,
+  MaliciousSvgKind,
+} from './testing/image-fixtures';
+
 // Configuration
 export { ImageProcessingConfig } from './config/image-processing.config';
 
@@ -23,10 +100,35 @@ export {
   ImageProcessingError,
   UnsupportedImageFormatError,
   ImageValidationError,
+  ImageContentMismatchError,
+  ImageLimitError,
+  InvalidConfigurationError,
+  UnknownPresetError,
+  SvgRejectedError,
   ImageProcessingFailedError,
   StorageError,
+  StorageCapabilityError,
 } from './errors/image-processing.errors';
 
 // Utils
-export { ImageValidator } from './utils/image-validator';
+export { ImageValidator, DetectedImageFormat } from './utils/image-validator';
 export { FileNamingUtils } from './utils/file-naming.utils';
+export { ImageResultUtils } from './utils/image-result.utils';
+export { ContentTypeUtils } from './utils/content-type.utils';
+export { ImageSizeUtils } from './utils/image-size.utils';
+export { ImageFormatUtils } from './utils/image-format.utils';
+export { BlurHash } from './utils/blurhash';
+export { ExifUtils, ExifData, ExifValue } from './utils/exif.utils';
+export { IptcUtils } from './utils/iptc.utils';
+export { XmpUtils } from './utils/xmp.utils';
+export { VariantResolver, VariantRequest, ResolvedVariant } from './utils/variant-resolver';
+export {
+  ResponsiveMarkupBuilder,
+  ResponsiveMarkupOptions,
+  ResponsivePicture,
+  ResponsiveSource,
+  ResponsiveImg,
+} from './utils/responsive-markup.builder';
+export { ConcurrencyUtils } from './utils/concurrency.utils';
+export { SvgSanitizer } from './utils/svg-sanitizer';
+export { AwsSignatureUtils, AwsCredentials, SignableRequest } from './utils/aws-signature.utils';
@@ -1,20 +1,239 @@
+export interface GeneratedVariant {
+  path: string;
+  format: ImageFormat['type'];
+  width: number;
+  // ImageSizeUtils.getKey of the size, e.g. '320w' or '256x256-cover'
+  sizeKey: string;
+  dpr: number;
+  pixelWidth: number;
+  pixelHeight: number;
+  bytes: number;
+  quality?: number;
+  // Present when the variant is animated
+  frames?: number;
+}
+
+export interface OriginalImageMetadata {
+  width: number;
+  height: number;
+  format: string;
+  bytes: number;
+  // 1 for still images
+  frames?: number;
+  // Total animation duration in milliseconds, when the source is animated
+  duration?: number;
+}
+
 export interface ImageProcessingResult {
   original: string;
+  originalMetadata: OriginalImageMetadata;
   generated: {
-    [format: string]: string[];
+    [format: string]: GeneratedVariant[];
   };
+  // True when an identical upload was already processed and its stored result was returned
+  deduplicated: boolean;
+  // Point kept in frame by cover crops; pass it back to processImage when regenerating
+  focalPoint?: FocalPoint;
+  regionOfInterest?: RegionOfInterest;
+  // Present when placeholders are enabled in the config
+  placeholders?: ImagePlaceholders;
+  // Present when the palette is enabled in the config
+  palette?: ImagePalette;
+}
+
+export interface PaletteColor {
+  hex: string;
+  // Fraction of the opaque pixels this color stands for, 0-1
+  share: number;
+}
+
+// Transparent pixels are ignored; a fully transparent image has no dominant color
+export interface ImagePalette {
+  dominant?: string;
+  // Most common first
+  colors: PaletteColor[];
+}
+
+// Normalized header metadata; groups the image has no data for are omitted
+export interface ImageInfo {
+  format: string;
+  // As displayed: EXIF orientations 5-8 swap width and height. One frame of an animation.
+  width: number;
+  height: number;
+  orientation: number;       // EXIF orientation 1-8, 1 when missing
+  bytes: number;
+  space: string;             // Color space, e.g. 'srgb', 'cmyk', 'b-w'
+  channels: number;
+  hasAlpha: boolean;
+  hasProfile: boolean;       // Embedded ICC profile
+  animation?: ImageAnimationInfo;
+  camera?: ImageDeviceInfo;
+  lens?: ImageDeviceInfo;
+  exposure?: ImageExposureInfo;
+  takenAt?: string;          // ISO 8601; with the UTC offset when the camera recorded it
+  location?: ImageLocation;
+  title?: string;            // XMP dc:title or IPTC object name
+  copyright?: string;        // XMP dc:rights, IPTC copyright notice or EXIF copyright
+}
+
+// Present when the image has more than one frame
+export interface ImageAnimationInfo {
+  frames: number;
+  loop: number;              // 0 repeats forever
+  delays: number[];          // Per frame, in milliseconds
+  duration: number;
+}
+
+export interface ImageDeviceInfo {
+  make?: string;
+  model?: string;
+  serialNumber?: string;
+}
+
+export interface ImageExposureInfo {
+  time?: number;             // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;      // Millimeters
+}
+
+export interface ImageLocation {
+  latitude: number;          // Decimal degrees, negative south
+  longitude: number;         // Decimal degrees, negative west
+  altitude?: number;         // Meters, negative below sea level
+}
+
+export interface ImageInfoOptions {
+  // Drop the location and the camera and lens serial numbers
+  redact?: boolean;
+}
+
+// Only the kinds enabled in PlaceholderOptions are set
+export interface ImagePlaceholders {
+  lqip?: string;            // data:image/webp;base64,...
+  blurhash?: string;
+  svg?: string;             // data:image/svg+xml;base64,...
+  dominantColor?: string;   // '#a1b2c3'
+}
+
+// Normalized coordinates, 0 to 1 from the left and top edges of the original
+export interface FocalPoint {
+  x: number;
+  y: number;
 }
 
+// Normalized like FocalPoint; cover crops are centered on the region as far as the crop allows
+export interface RegionOfInterest {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageProcessingOptions {
+  // Name of a preset registered in ImageProcessorModule.forRoot
+  preset?: string;
+  // Applies to this call only. A partial config is merged over the module config and
+  // preset; an ImageProcessingConfig instance replaces the module config.
+  config?: Partial<ImageProcessingConfig>;
+  mimeType?: string;
+  maxSizeInBytes?: number;
+  focalPoint?: FocalPoint;
+  regionOfInterest?: RegionOfInterest;
+}
+
+export type ImageFit = 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+
+// Crop anchor for cover and contain; 'attention' and 'entropy' are sharp's
+// content-aware strategies and only apply to cover
+export type ImagePosition =
+  | 'center'
+  | 'top'
+  | 'right top'
+  | 'right'
+  | 'right bottom'
+  | 'bottom'
+  | 'left bottom'
+  | 'left'
+  | 'left top'
+  | 'attention'
+  | 'entropy';
+
 export interface ImageSize {
   width: number;
   height?: number;
+  fit?: ImageFit;               // Default 'inside'
+  position?: ImagePosition;     // Default 'center'
+  background?: string;          // Letterbox color for 'contain', transparent by default
+  allowEnlargement?: boolean;   // Default false: never upscale beyond the source
 }
 
+// Encoder options are checked per type by ImageFormatUtils.validate
 export interface ImageFormat {
-  type: 'webp' | 'avif' | 'jpeg' | 'png';
-  quality?: number;
+  type: 'webp' | 'avif' | 'jpeg' | 'png' | 'gif' | 'tiff';
+  quality?: number;                          // 1-100, default 80; PNG: palette output only; not GIF
+  effort?: number;                           // CPU effort: webp 0-6, avif 0-9, png 1-10 (palette), gif 1-10
+  lossless?: boolean;                        // webp, avif
+  nearLossless?: boolean;                    // webp
+  alphaQuality?: number;                     // webp, 0-100
+  smartSubsample?: boolean;                  // webp
+  chromaSubsampling?: '4:2:0' | '4:4:4';     // jpeg, avif
+  progressive?: boolean;                     // jpeg, png (interlaced)
+  mozjpeg?: boolean;                         // jpeg
+  palette?: boolean;                         // png; required for quality, colors and effort
+  colors?: number;                           // png, gif palette size, 2-256
+  compressionLevel?: number;                 // png zlib level, 0-9
+}
+
+// Checked against header metadata before the image is decoded
+export interface ImageLimits {
+  maxWidth?: number;
+  maxHeight?: number;
+  maxMegapixels?: number;
+  minWidth?: number;
+  minHeight?: number;
+  maxFrames?: number;
 }
 
+// Animated sources keep their frames in formats that support animation (WebP, GIF);
+// other formats get the poster frame. forceStatic uses the poster frame everywhere.
+export interface AnimationOptions {
+  forceStatic?: boolean;
+  posterFrame?: number;
+}
+
+// Lazy-loading placeholders generated from the poster frame; all off by default
+export interface PlaceholderOptions {
+  lqip?: boolean;                                   // Tiny WebP thumbnail as a base64 data URI
+  lqipWidth?: number;                               // Longest side of the thumbnail, 4-64, default 16
+  blurhash?: boolean;
+  blurhashComponents?: { x: number; y: number };    // 1-9 each, default 4x3
+  svg?: boolean;                                    // Blurred grid of the image's colors
+  dominantColor?: boolean;
+}
+
+export interface PaletteOptions {
+  count?: number;     // Colors in the palette, 1-16, default 5
+}
+
+// Adds the palette of the poster frame to every processing result
+export interface PaletteConfig extends PaletteOptions {
+  enabled?: boolean;  // Default false
+}
+
+// Source metadata that may be copied into the variants
+export type MetadataField = 'copyright' | 'icc';
+
+// Variants are always converted to sRGB, and GPS data never reaches them. Everything
+// else is stripped unless listed in `keep`.
+export interface MetadataOptions {
+  autoOrient?: boolean;      // Apply the EXIF orientation to the pixels, default true
+  keep?: MetadataField[];    // 'copyright' copies the EXIF copyright notice; 'icc' embeds the sRGB profile in every variant
+}
+
+// How SVG uploads are handled before sharp parses them
+export type SvgPolicy = 'reject' | 'sanitize' | 'rasterize';
+
 export interface DPRConfig {
   ratios: number[];
 }
@@ -23,4 +242,14 @@ export interface ImageProcessingConfig {
   sizes: ImageSize[];
   formats: ImageFormat[];
   dpr: DPRConfig;
+  concurrency?: number;
+  deduplicate?: boolean;
+  strictValidation?: boolean;
+  limits?: ImageLimits;
+  svgPolicy?: SvgPolicy;
+  svgDensity?: number;
+  animation?: AnimationOptions;
+  placeholders?: PlaceholderOptions;
+  palette?: PaletteConfig;
+  metadata?: MetadataOptions;
 }
@@ -0,0 +1,23 @@
+import { ImageFit, ImagePosition } from './image-processing.interface';
+
+export interface OriginalNamingContext {
+  id: string;
+  originalName: string;
+}
+
+export interface VariantNamingContext extends OriginalNamingContext {
+  originalPath: string;
+  width: number;
+  height?: number;
+  fit?: ImageFit;
+  position?: ImagePosition;
+  dpr: number;
+  format: string;
+}
+
+export interface NamingStrategy {
+  generateOriginalPath(context: OriginalNamingContext): string;
+  generateVariantPath(context: VariantNamingContext): string;
+  getVariantPrefix(originalPath: string): string;
+  isVariantPath(originalPath: string, path: string): boolean;
+}
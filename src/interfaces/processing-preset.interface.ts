@@ -0,0 +1,12 @@
+import { ImageProcessingConfig } from './image-processing.interface';
+import { NamingStrategy } from './naming-strategy.interface';
+
+// Config fields override the module's ImageProcessingConfig; unset fields are inherited.
+// basePath builds a TemplateNamingStrategy with the default templates; use namingStrategy
+// for anything else.
+export interface ImageProcessingPreset extends Partial<ImageProcessingConfig> {
+  namingStrategy?: NamingStrategy;
+  basePath?: string;
+}
+
+export type ImageProcessingPresets = { [name: string]: ImageProcessingPreset };
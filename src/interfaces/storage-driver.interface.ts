@@ -1,5 +1,20 @@
+import { Readable } from 'stream';
+
+export interface StorageObjectInfo {
+  path: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
 export interface StorageDriver {
   upload(path: string, data: Buffer): Promise<string>;
   download(path: string): Promise<Buffer>;
   delete(path: string): Promise<void>;
+  uploadStream?(path: string, stream: Readable): Promise<string>;
+  downloadStream?(path: string): Promise<Readable>;
+  exists?(path: string): Promise<boolean>;
+  stat?(path: string): Promise<StorageObjectInfo>;
+  list?(prefix: string): Promise<string[]>;
+  copy?(sourcePath: string, destinationPath: string): Promise<string>;
 }
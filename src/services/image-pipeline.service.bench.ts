@@ -0,0 +1,44 @@
+import { bench, describe } from 'vitest';
+import sharp from 'sharp';
+import { ImagePipelineService } from './image-pipeline.service';
+import { ImageProcessorService } from './image-processor.service';
+import { ImageProcessingConfig } from '../config/image-processing.config';
+import { InMemoryStorageDriver } from '../drivers/in-memory.storage-driver';
+
+// Run with `npm run bench`. Compares the pipeline on the default config (18 variants)
+// with the previous approach: decode the source for every variant and await each
+// encode and upload in turn. The gain grows with the number of CPU cores.
+const source = await sharp({
+  create: {
+    width: 1600,
+    height: 1200,
+    channels: 3,
+    noise: { type: 'gaussian', mean: 128, sigma: 40 }
+  }
+})
+  .blur(3)
+  .jpeg({ quality: 90 })
+  .toBuffer();
+
+const imageProcessor = new ImageProcessorService();
+const config = new ImageProcessingConfig();
+const options = { iterations: 3, time: 0, warmupIterations: 0, warmupTime: 0 };
+
+describe('processImage with the default config', () => {
+  bench('sequential, decode per variant', async () => {
+    const storage = new InMemoryStorageDriver();
+    for (const size of config.sizes) {
+      for (const format of config.formats) {
+        for (const dprRatio of config.dpr.ratios) {
+          const processed = await imageProcessor.processImage(source, { width: size.width * dprRatio }, format);
+          await storage.upload(`/bench/${size.width}w@${dprRatio}x.${format.type}`, processed.buffer);
+        }
+      }
+    }
+  }, options);
+
+  bench(`decode once, concurrency ${config.concurrency}`, async () => {
+    const pipeline = new ImagePipelineService(imageProcessor, new InMemoryStorageDriver(), config);
+    await pipeline.processImage(source, 'bench.jpg');
+  }, options);
+});
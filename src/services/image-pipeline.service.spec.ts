@@ -1,10 +1,23 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Readable } from 'stream';
 import { ImagePipelineService, STORAGE_DRIVER } from '../services/image-pipeline.service';
 import { ImageProcessorService } from '../services/image-processor.service';
 import { ImageProcessingConfig } from '../config/image-processing.config';
 import { StorageDriver } from '../interfaces/storage-driver.interface';
 import { ImageProcessingResult } from '../interfaces/image-processing.interface';
-import { StorageError, ImageProcessingFailedError } from '../errors/image-processing.errors';
+import {
+  StorageError,
+  StorageCapabilityError,
+  ImageProcessingFailedError,
+  ImageContentMismatchError,
+  ImageLimitError,
+  InvalidConfigurationError,
+  UnknownPresetError
+} from '../errors/image-processing.errors';
+import { InMemoryStorageDriver } from '../drivers/in-memory.storage-driver';
+import { TemplateNamingStrategy } from '../strategies/template-naming.strategy';
+import { ImageResultUtils } from '../utils/image-result.utils';
+import { createHash } from 'crypto';
 
 // Mock storage driver
 class MockStorageDriver implements StorageDriver {
@@ -48,9 +61,20 @@ describe('ImagePipelineService', () => {
         buffer: Buffer.from('processed'),
         format: format.type,
         width: size.width,
-        height: size.height || 0
+        height: size.height || 0,
+        quality: format.quality
       })),
-      getImageMetadata: vi.fn()
+      getImageMetadata: vi.fn().mockResolvedValue({ width: 2000, height: 1000, format: 'jpeg' }),
+      createPlaceholders: vi.fn().mockResolvedValue({ blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', dominantColor: '#336699' }),
+      extractPalette: vi.fn().mockResolvedValue({ dominant: '#336699', colors: [{ hex: '#336699', share: 1 }] }),
+      getCapabilities: vi.fn().mockReturnValue({
+        input: ['jpeg', 'png', 'webp', 'gif', 'heif', 'avif'],
+        output: ['jpeg', 'png', 'webp', 'gif', 'tiff', 'heif', 'avif']
+      }),
+      decodeImage: vi.fn().mockResolvedValue({
+        data: Buffer.from('decoded'),
+        info: { width: 2000, height: 1000, channels: 3 }
+      })
     } as any;
 
     service = new ImagePipelineService(
@@ -77,6 +101,60 @@ describe('ImagePipelineService', () => {
       expect(Array.isArray(result.generated.avif)).toBe(true);
     });
 
+    it('should describe every generated variant', async () => {
+      const result = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(result.originalMetadata).toEqual({ width: 2000, height: 1000, format: 'jpeg', bytes: 15, frames: 1 });
+      expect(result.generated.webp).toHaveLength(9);
+      expect(result.generated.webp).toContainEqual({
+        path: expect.stringMatching(/\/640w@2x\.webp$/),
+        format: 'webp',
+        width: 640,
+        sizeKey: '640w',
+        dpr: 2,
+        pixelWidth: 1280,
+        pixelHeight: 0,
+        bytes: 9,
+        quality: 80
+      });
+    });
+
+    it('should decode the input once for all variants', async () => {
+      await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      const decoded = await (mockImageProcessor.decodeImage as any).mock.results[0].value;
+      expect(mockImageProcessor.decodeImage).toHaveBeenCalledTimes(1);
+      expect(mockImageProcessor.processImage).toHaveBeenCalledTimes(18);
+      expect(mockImageProcessor.processImage).toHaveBeenCalledWith(
+        decoded,
+        { width: 640, height: undefined },
+        { type: 'webp', quality: 80 },
+        { focalPoint: undefined, metadata: { icc: false } }
+      );
+    });
+
+    it('should encode variants in parallel up to the concurrency limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockImageProcessor.processImage = vi.fn().mockImplementation(async (_input, size, format) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return { buffer: Buffer.from('processed'), format: format.type, width: size.width, height: 0 };
+      });
+      config.setConcurrency(3);
+
+      const result = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(maxRunning).toBe(3);
+      expect(result.generated.webp.map(variant => [variant.width, variant.dpr])).toEqual([
+        [320, 1], [320, 2], [320, 3],
+        [640, 1], [640, 2], [640, 3],
+        [1024, 1], [1024, 2], [1024, 3]
+      ]);
+    });
+
     it('should validate input file', async () => {
       const invalidBuffer = Buffer.alloc(0);
       const filename = 'test.jpg';
@@ -85,6 +163,354 @@ describe('ImagePipelineService', () => {
         .rejects.toThrow(ImageProcessingFailedError);
     });
 
+    it('should check dimension limits before decoding', async () => {
+      config.setLimits({ maxWidth: 1000 });
+
+      await expect(service.processImage(Buffer.from('test image data'), 'test.jpg'))
+        .rejects.toThrow(ImageLimitError);
+      expect(mockImageProcessor.decodeImage).not.toHaveBeenCalled();
+    });
+
+    it('should pass the megapixel limit to the decoder', async () => {
+      config.setLimits({ maxMegapixels: 24 });
+
+      await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(mockImageProcessor.decodeImage).toHaveBeenCalledWith(expect.any(Buffer), 24_000_000, 0, true);
+    });
+
+    it('should report the displayed size of rotated originals', async () => {
+      vi.mocked(mockImageProcessor.getImageMetadata).mockResolvedValue({ width: 2000, height: 1000, format: 'jpeg', orientation: 6 } as any);
+
+      const result = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(result.originalMetadata).toMatchObject({ width: 1000, height: 2000 });
+      expect(mockImageProcessor.decodeImage).toHaveBeenCalledWith(expect.any(Buffer), 100_000_000, 0, true);
+    });
+
+    it('should leave the orientation alone when auto-orient is off', async () => {
+      vi.mocked(mockImageProcessor.getImageMetadata).mockResolvedValue({ width: 2000, height: 1000, format: 'jpeg', orientation: 6 } as any);
+      config.setMetadata({ autoOrient: false });
+
+      const result = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(result.originalMetadata).toMatchObject({ width: 2000, height: 1000 });
+      expect(mockImageProcessor.decodeImage).toHaveBeenCalledWith(expect.any(Buffer), 100_000_000, 0, false);
+    });
+
+    it('should embed the sRGB profile for CMYK sources', async () => {
+      vi.mocked(mockImageProcessor.getImageMetadata).mockResolvedValue({ width: 2000, height: 1000, format: 'jpeg', space: 'cmyk' } as any);
+
+      await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(mockImageProcessor.processImage).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.objectContaining({ metadata: { icc: true } })
+      );
+    });
+
+    describe('per-call config', () => {
+      const buffer = Buffer.from('test image data');
+
+      it('should apply a partial override to that call only', async () => {
+        const result = await service.processImage(buffer, 'test.jpg', {
+          config: { sizes: [{ width: 100 }], formats: [{ type: 'jpeg' }] }
+        });
+        const next = await service.processImage(buffer, 'test.jpg');
+
+        expect(result.generated).toEqual({ jpeg: expect.any(Array) });
+        expect(result.generated.jpeg.map(variant => variant.width)).toEqual([100, 100, 100]);
+        expect(next.generated.webp).toHaveLength(9);
+        expect(config.sizes).toHaveLength(3);
+      });
+
+      it('should use a per-call ImageProcessingConfig in place of the module config', async () => {
+        const callConfig = new ImageProcessingConfig().setFormats([{ type: 'png' }]).setDPR({ ratios: [1] });
+
+        const result = await service.processImage(buffer, 'test.jpg', { config: callConfig });
+
+        expect(Object.keys(result.generated)).toEqual(['png']);
+        expect(result.generated.png).toHaveLength(3);
+      });
+
+      it('should not let concurrent calls affect each other', async () => {
+        const [small, large] = await Promise.all([
+          service.processImage(buffer, 'a.jpg', { config: { sizes: [{ width: 100 }] } }),
+          service.processImage(buffer, 'b.jpg', { config: { sizes: [{ width: 2000 }], dpr: { ratios: [1] } } })
+        ]);
+
+        expect(ImageResultUtils.getAllVariants(small).every(variant => variant.width === 100)).toBe(true);
+        expect(ImageResultUtils.getAllVariants(large).map(variant => variant.width)).toEqual([2000, 2000]);
+      });
+
+      it('should not see changes to the shared config made during the call', async () => {
+        const encode = vi.mocked(mockImageProcessor.processImage).getMockImplementation();
+        vi.mocked(mockImageProcessor.processImage).mockImplementationOnce(async (...args) => {
+          config.setSizes([{ width: 50 }]).setFormats([{ type: 'png' }]);
+          return encode(...args);
+        });
+
+        const result = await service.processImage(buffer, 'test.jpg');
+
+        expect(result.generated.webp.map(variant => variant.width)).toEqual([320, 320, 320, 640, 640, 640, 1024, 1024, 1024]);
+        expect(result.generated.avif).toHaveLength(9);
+      });
+
+      it('should reject an invalid override before processing', async () => {
+        await expect(service.processImage(buffer, 'test.jpg', { config: { concurrency: -1 } }))
+          .rejects.toThrow(InvalidConfigurationError);
+        expect(mockImageProcessor.validateImage).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('placeholders', () => {
+      const buffer = Buffer.from('test image data');
+
+      it('should not create placeholders unless enabled', async () => {
+        const result = await service.processImage(buffer, 'test.jpg');
+
+        expect(result.placeholders).toBeUndefined();
+        expect(mockImageProcessor.createPlaceholders).not.toHaveBeenCalled();
+      });
+
+      it('should create enabled placeholders from the decoded poster', async () => {
+        config.setPlaceholders({ blurhash: true, dominantColor: true });
+
+        const result = await service.processImage(buffer, 'test.jpg');
+
+        expect(result.placeholders).toEqual({ blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj', dominantColor: '#336699' });
+        expect(mockImageProcessor.createPlaceholders).toHaveBeenCalledWith(
+          await vi.mocked(mockImageProcessor.decodeImage).mock.results[0].value,
+          expect.objectContaining({ blurhash: true, dominantColor: true, lqip: false }),
+          expect.any(Number)
+        );
+      });
+    });
+
+    describe('palette', () => {
+      it('should include the palette when enabled', async () => {
+        const buffer = Buffer.from('test image data');
+        expect((await service.processImage(buffer, 'test.jpg')).palette).toBeUndefined();
+        config.setPalette({ enabled: true, count: 3 });
+
+        const result = await service.processImage(buffer, 'test.jpg');
+
+        expect(result.palette).toEqual({ dominant: '#336699', colors: [{ hex: '#336699', share: 1 }] });
+        expect(mockImageProcessor.extractPalette).toHaveBeenCalledTimes(1);
+        expect(mockImageProcessor.extractPalette).toHaveBeenCalledWith(expect.anything(), { count: 3 }, expect.any(Number));
+      });
+    });
+
+    describe('output capabilities', () => {
+      beforeEach(() => {
+        vi.mocked(mockImageProcessor.getCapabilities).mockReturnValue({ input: ['jpeg'], output: ['jpeg', 'webp'] });
+      });
+
+      it('should refuse a config with an unsupported output on construction', () => {
+        expect(() => new ImagePipelineService(mockImageProcessor, mockStorageDriver, config))
+          .toThrow('Output format avif is not supported by this libvips build');
+        expect(() => new ImagePipelineService(mockImageProcessor, mockStorageDriver, config.removeFormat('avif'), undefined, {
+          print: { formats: [{ type: 'tiff' }] }
+        })).toThrow(InvalidConfigurationError);
+      });
+
+      it('should refuse a per-call override with an unsupported output', async () => {
+        service = new ImagePipelineService(mockImageProcessor, mockStorageDriver, config.removeFormat('avif'));
+
+        await expect(service.processImage(Buffer.from('test image data'), 'test.jpg', { config: { formats: [{ type: 'gif' }] } }))
+          .rejects.toThrow(InvalidConfigurationError);
+        expect(mockImageProcessor.processImage).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('presets', () => {
+      const buffer = Buffer.from('test image data');
+
+      beforeEach(() => {
+        service = new ImagePipelineService(mockImageProcessor, mockStorageDriver, config, undefined, {
+          avatar: {
+            sizes: [{ width: 64, height: 64, fit: 'cover' }],
+            formats: [{ type: 'webp', quality: 90 }],
+            dpr: { ratios: [1, 2] },
+            basePath: '/avatars'
+          },
+          hero: { sizes: [{ width: 1920 }] }
+        });
+      });
+
+      it('should process with the preset variant set and base path', async () => {
+        const result = await service.processImage(buffer, 'me.jpg', { preset: 'avatar' });
+
+        expect(result.original).toMatch(/^\/avatars\/[^/]+\/original\.jpg$/);
+        expect(Object.keys(result.generated)).toEqual(['webp']);
+        expect(result.generated.webp.map(variant => [variant.sizeKey, variant.dpr])).toEqual([
+          ['64x64-cover', 1], ['64x64-cover', 2]
+        ]);
+      });
+
+      it('should inherit unset fields from the base config, including later changes', async () => {
+        config.setFormats([{ type: 'jpeg' }]);
+
+        const result = await service.processImage(buffer, 'banner.jpg', { preset: 'hero' });
+
+        expect(result.original).toMatch(/^\/uploads\//);
+        expect(result.generated.jpeg).toHaveLength(3);
+      });
+
+      it('should merge per-call overrides over the preset', async () => {
+        const result = await service.processImage(buffer, 'me.jpg', { preset: 'avatar', config: { dpr: { ratios: [3] } } });
+
+        expect(result.generated.webp.map(variant => [variant.sizeKey, variant.dpr])).toEqual([['64x64-cover', 3]]);
+        expect(result.original).toMatch(/^\/avatars\//);
+      });
+
+      it('should leave calls without a preset on the base config', async () => {
+        const result = await service.processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+        expect(result.generated.webp).toHaveLength(9);
+        expect(result.generated.avif).toHaveLength(9);
+      });
+
+      it('should throw a typed error for unknown presets', async () => {
+        const upload = vi.spyOn(mockStorageDriver, 'upload');
+
+        await expect(service.processImage(buffer, 'me.jpg', { preset: 'banner' }))
+          .rejects.toThrow(UnknownPresetError);
+        await expect(service.processImage(buffer, 'me.jpg', { preset: 'banner' }))
+          .rejects.toMatchObject({ code: 'UNKNOWN_PRESET', preset: 'banner' });
+        expect(upload).not.toHaveBeenCalled();
+      });
+
+      it('should reject invalid presets on construction', () => {
+        expect(() => new ImagePipelineService(mockImageProcessor, mockStorageDriver, config, undefined, {
+          broken: { concurrency: 0 }
+        })).toThrow(InvalidConfigurationError);
+        expect(() => new ImagePipelineService(mockImageProcessor, mockStorageDriver, config, undefined, {
+          both: { basePath: '/a', namingStrategy: new TemplateNamingStrategy() }
+        })).toThrow('sets both namingStrategy and basePath');
+      });
+    });
+
+    describe('focal point', () => {
+      const buffer = Buffer.from('test image data');
+
+      beforeEach(() => {
+        config.setSizes([{ width: 256, height: 256, fit: 'cover' }]).setFormats([{ type: 'webp' }]).setDPR({ ratios: [1] });
+      });
+
+      it('should crop around the focal point and store it in the result', async () => {
+        const result = await service.processImage(buffer, 'test.jpg', { mimeType: 'image/jpeg', focalPoint: { x: 0.2, y: 0.7 } });
+
+        expect(result.focalPoint).toEqual({ x: 0.2, y: 0.7 });
+        expect(mockImageProcessor.processImage).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ width: 256, height: 256, fit: 'cover' }),
+          { type: 'webp' },
+          { focalPoint: { x: 0.2, y: 0.7 }, metadata: { icc: false } }
+        );
+      });
+
+      it('should crop around the center of a region of interest', async () => {
+        const regionOfInterest = { left: 0.5, top: 0, width: 0.5, height: 0.5 };
+
+        const result = await service.processImage(buffer, 'test.jpg', { regionOfInterest });
+
+        expect(result.focalPoint).toEqual({ x: 0.75, y: 0.25 });
+        expect(result.regionOfInterest).toEqual(regionOfInterest);
+      });
+
+      it.each([
+        [{ focalPoint: { x: 1.5, y: 0.5 } }],
+        [{ regionOfInterest: { left: 0.6, top: 0, width: 0.5, height: 0.5 } }],
+        [{ focalPoint: { x: 0.5, y: 0.5 }, regionOfInterest: { left: 0, top: 0, width: 1, height: 1 } }]
+      ])('should reject invalid input %j before processing', async options => {
+        await expect(service.processImage(buffer, 'test.jpg', options))
+          .rejects.toMatchObject({ code: 'INVALID_FOCAL_POINT' });
+        expect(mockImageProcessor.validateImage).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('animated sources', () => {
+      const buffer = Buffer.from('test image data');
+
+      beforeEach(() => {
+        vi.mocked(mockImageProcessor.getImageMetadata).mockResolvedValue(
+          { width: 2000, height: 1000, format: 'gif', pages: 3, delay: [100, 100, 50] } as any
+        );
+      });
+
+      it('should keep the animation in WebP and use a poster frame for AVIF', async () => {
+        config.setAnimation({ posterFrame: 1 });
+
+        const result = await service.processImage(buffer, 'test.gif');
+
+        expect(result.originalMetadata).toMatchObject({ frames: 3, duration: 250 });
+        expect(mockImageProcessor.decodeImage).toHaveBeenCalledWith(buffer, 100_000_000, 1, true);
+        expect(mockImageProcessor.processImage).toHaveBeenCalledWith(
+          buffer,
+          { width: 640, height: undefined },
+          { type: 'webp', quality: 80 },
+          { limitInputPixels: 100_000_000, animated: true, autoOrient: true }
+        );
+        const decoded = await (mockImageProcessor.decodeImage as any).mock.results[0].value;
+        expect(mockImageProcessor.processImage).toHaveBeenCalledWith(
+          decoded,
+          { width: 640, height: undefined },
+          { type: 'avif', quality: 80 },
+          { focalPoint: undefined, metadata: { icc: false } }
+        );
+      });
+
+      it('should select the last frame when the poster frame is out of range', async () => {
+        config.setAnimation({ posterFrame: 10 });
+
+        await service.processImage(buffer, 'test.gif');
+
+        expect(mockImageProcessor.decodeImage).toHaveBeenCalledWith(buffer, 100_000_000, 2, true);
+      });
+
+      it('should use the poster frame for every format when forced static', async () => {
+        config.setAnimation({ forceStatic: true });
+
+        await service.processImage(buffer, 'test.gif');
+
+        const decoded = await (mockImageProcessor.decodeImage as any).mock.results[0].value;
+        expect(mockImageProcessor.processImage).toHaveBeenCalledTimes(18);
+        for (const [input] of vi.mocked(mockImageProcessor.processImage).mock.calls) {
+          expect(input).toBe(decoded);
+        }
+      });
+
+      it('should count every frame against the megapixel limit when the animation is kept', async () => {
+        config.setLimits({ maxMegapixels: 5 });
+
+        await expect(service.processImage(buffer, 'test.gif')).rejects.toThrow(ImageLimitError);
+        expect(mockImageProcessor.processImage).not.toHaveBeenCalled();
+
+        config.setAnimation({ forceStatic: true });
+        const result = await service.processImage(buffer, 'test.gif');
+        expect(result.generated.webp).toHaveLength(9);
+      });
+
+      it('should not decode a poster frame when every format is animated', async () => {
+        config.setFormats([{ type: 'webp', quality: 80 }]);
+
+        await service.processImage(buffer, 'test.gif');
+
+        expect(mockImageProcessor.decodeImage).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should reject mismatched content in strict mode', async () => {
+      config.setStrictValidation(true);
+
+      await expect(service.processImage(Buffer.from('<html></html>'), 'test.jpg', 'image/jpeg'))
+        .rejects.toThrow(ImageContentMismatchError);
+      expect(mockImageProcessor.validateImage).not.toHaveBeenCalled();
+    });
+
     it('should handle image processing errors gracefully', async () => {
       const buffer = Buffer.from('test image data');
       const filename = 'test.jpg';
@@ -147,6 +573,268 @@ describe('ImagePipelineService', () => {
     });
   });
 
+  describe('getImageStream', () => {
+    const readAll = async (stream: Readable): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks);
+    };
+
+    it('should fall back to buffer download when driver has no streaming', async () => {
+      await mockStorageDriver.upload('test.jpg', Buffer.from('test'));
+
+      const stream = await service.getImageStream('test.jpg');
+
+      expect((await readAll(stream)).toString()).toBe('test');
+    });
+
+    it('should prefer driver downloadStream', async () => {
+      const streamingDriver = mockStorageDriver as StorageDriver;
+      streamingDriver.downloadStream = vi.fn().mockResolvedValue(Readable.from(Buffer.from('streamed')));
+      streamingDriver.download = vi.fn();
+
+      const stream = await service.getImageStream('test.jpg');
+
+      expect((await readAll(stream)).toString()).toBe('streamed');
+      expect(streamingDriver.downloadStream).toHaveBeenCalledWith('test.jpg');
+      expect(streamingDriver.download).not.toHaveBeenCalled();
+    });
+
+    it('should handle get image stream errors', async () => {
+      await expect(service.getImageStream('nonexistent.jpg'))
+        .rejects.toThrow(StorageError);
+    });
+  });
+
+  describe('uploads', () => {
+    it('should prefer driver uploadStream when available', async () => {
+      const streamingDriver = mockStorageDriver as StorageDriver;
+      const uploadedPaths: string[] = [];
+      streamingDriver.uploadStream = vi.fn().mockImplementation(async (path: string, stream: Readable) => {
+        for await (const _chunk of stream) {
+          // drain
+        }
+        uploadedPaths.push(path);
+        return path;
+      });
+      streamingDriver.upload = vi.fn();
+
+      await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+      expect(streamingDriver.upload).not.toHaveBeenCalled();
+      expect(uploadedPaths).toHaveLength(19);
+    });
+  });
+
+  describe('storage capabilities', () => {
+    it('should throw StorageCapabilityError when driver lacks optional methods', async () => {
+      await expect(service.imageExists('test.jpg')).rejects.toThrow(StorageCapabilityError);
+      await expect(service.statImage('test.jpg')).rejects.toThrow(StorageCapabilityError);
+      await expect(service.listVariants('test.jpg')).rejects.toThrow(StorageCapabilityError);
+      await expect(service.copyImage('a.jpg', 'b.jpg')).rejects.toThrow(StorageCapabilityError);
+      await expect(service.imageExists('test.jpg')).rejects.toMatchObject({
+        code: 'STORAGE_CAPABILITY_UNSUPPORTED',
+        operation: 'exists'
+      });
+    });
+
+    describe('with capable driver', () => {
+      let storage: InMemoryStorageDriver;
+
+      beforeEach(() => {
+        storage = new InMemoryStorageDriver();
+        service = new ImagePipelineService(mockImageProcessor, storage, config);
+      });
+
+      it('should list variants generated for an original', async () => {
+        const first = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+        await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+        const variants = await service.listVariants(first.original);
+
+        expect(variants).toHaveLength(18);
+        expect(variants.sort()).toEqual(
+          [...first.generated.webp, ...first.generated.avif].map(variant => variant.path).sort()
+        );
+      });
+
+      it('should list variants with the naming strategy of a preset', async () => {
+        service = new ImagePipelineService(mockImageProcessor, storage, config, undefined, {
+          avatar: { sizes: [{ width: 64 }], dpr: { ratios: [1] }, basePath: '/avatars' }
+        });
+        const result = await service.processImage(Buffer.from('test image data'), 'me.jpg', { preset: 'avatar' });
+
+        expect(await service.listVariants(result.original, 'avatar')).toHaveLength(2);
+        await expect(service.listVariants(result.original)).rejects.toThrow(StorageError);
+      });
+
+      it('should not overwrite variants of uploads with the same file name', async () => {
+        const first = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+        const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+        expect(storage.uploads).toHaveLength(38);
+        expect(storage.paths).toHaveLength(38);
+        expect(first.generated.webp[0].path).not.toBe(second.generated.webp[0].path);
+        expect(first.generated.webp[0].path.startsWith(first.original.replace('original.jpg', ''))).toBe(true);
+      });
+
+      it('should use the configured naming strategy', async () => {
+        service = new ImagePipelineService(mockImageProcessor, storage, config, new TemplateNamingStrategy({
+          basePath: '/media',
+          variantTemplate: '{id}/{name}-{width}@{dpr}x.{format}'
+        }));
+
+        const result = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+        expect(result.original).toMatch(/^\/media\/[0-9a-f-]{36}\/original\.jpg$/);
+        expect(result.generated.webp.map(variant => variant.path)).toContain(
+          result.original.replace('original.jpg', 'photo-640@2x.webp')
+        );
+      });
+
+      describe('deduplication', () => {
+        beforeEach(() => {
+          config.setDeduplicate(true);
+        });
+
+        it('should derive storage keys from the content hash', async () => {
+          const result = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          const hash = createHash('sha256').update('test image data').digest('hex');
+
+          expect(result.original).toBe(`/uploads/${hash}/original.jpg`);
+          expect(result.deduplicated).toBe(false);
+          expect(storage.has(`/uploads/${hash}/original.jpg.json`)).toBe(true);
+        });
+
+        it('should return the stored result for a repeated upload without re-encoding', async () => {
+          const first = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          vi.mocked(mockImageProcessor.processImage).mockClear();
+          vi.mocked(mockImageProcessor.decodeImage).mockClear();
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second).toEqual({ ...first, deduplicated: true });
+          expect(mockImageProcessor.decodeImage).not.toHaveBeenCalled();
+          expect(mockImageProcessor.processImage).not.toHaveBeenCalled();
+          expect(storage.uploads).toHaveLength(20);
+        });
+
+        it('should process again when a stored variant is missing', async () => {
+          const first = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          await storage.delete(first.generated.avif[0].path);
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second.deduplicated).toBe(false);
+          expect(storage.has(first.generated.avif[0].path)).toBe(true);
+        });
+
+        it('should process again when the config has new variants', async () => {
+          await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.addSize({ width: 1920 });
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second.deduplicated).toBe(false);
+          expect(second.generated.webp).toHaveLength(12);
+        });
+
+        it('should process again when newly enabled placeholders are missing', async () => {
+          await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setPlaceholders({ blurhash: true });
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          const third = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second).toMatchObject({ deduplicated: false, placeholders: { blurhash: expect.any(String) } });
+          expect(third.deduplicated).toBe(true);
+        });
+
+        it('should process again when the encoder settings change', async () => {
+          await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setFormats([{ type: 'webp', quality: 80, lossless: true }, { type: 'avif', quality: 80 }]);
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setFormats([{ type: 'webp', quality: 60, lossless: true }, { type: 'avif', quality: 80 }]);
+          const third = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          const fourth = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second.deduplicated).toBe(false);
+          expect(third.deduplicated).toBe(false);
+          expect(third.generated.webp.every(variant => variant.quality === 60)).toBe(true);
+          expect(fourth.deduplicated).toBe(true);
+        });
+
+        it('should process again when the metadata, animation or SVG options change', async () => {
+          await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setMetadata({ keep: ['icc'] });
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          const third = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setAnimation({ forceStatic: true });
+          const fourth = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+          config.setSvgPolicy('rasterize');
+          const fifth = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second.deduplicated).toBe(false);
+          expect(mockImageProcessor.processImage).toHaveBeenLastCalledWith(
+            expect.anything(),
+            expect.anything(),
+            expect.anything(),
+            expect.objectContaining({ metadata: { icc: true } })
+          );
+          expect(third.deduplicated).toBe(true);
+          expect(fourth.deduplicated).toBe(false);
+          expect(fifth.deduplicated).toBe(false);
+        });
+
+        it('should not return the encoder settings stored with the result', async () => {
+          await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg');
+
+          expect(second).not.toHaveProperty('formats');
+        });
+
+        it('should keep the variants of another focal point', async () => {
+          const first = await service.processImage(Buffer.from('test image data'), 'photo.jpg', { focalPoint: { x: 0.5, y: 0.5 } });
+
+          const second = await service.processImage(Buffer.from('test image data'), 'photo.jpg', { focalPoint: { x: 0.1, y: 0.5 } });
+          const third = await service.processImage(Buffer.from('test image data'), 'photo.jpg', { focalPoint: { x: 0.5, y: 0.5 } });
+
+          expect(second.deduplicated).toBe(false);
+          expect(second.focalPoint).toEqual({ x: 0.1, y: 0.5 });
+          expect(second.original).not.toBe(first.original);
+          expect(third).toEqual({ ...first, deduplicated: true });
+        });
+
+        it('should require exists support from the driver', async () => {
+          service = new ImagePipelineService(mockImageProcessor, mockStorageDriver, config);
+
+          await expect(service.processImage(Buffer.from('test image data'), 'photo.jpg'))
+            .rejects.toThrow(StorageCapabilityError);
+        });
+      });
+
+      it('should check existence, stat and copy images', async () => {
+        const result = await service.processImage(Buffer.from('test image data'), 'test.jpg');
+
+        expect(await service.imageExists(result.original)).toBe(true);
+        expect(await service.imageExists('/missing.jpg')).toBe(false);
+        expect((await service.statImage(result.original)).size).toBe(15);
+
+        await service.copyImage(result.original, '/backup/test.jpg');
+        expect(storage.has('/backup/test.jpg')).toBe(true);
+      });
+
+      it('should wrap driver errors in StorageError', async () => {
+        await expect(service.statImage('/missing.jpg')).rejects.toThrow(StorageError);
+      });
+    });
+  });
+
   describe('updateConfig', () => {
     it('should update configuration', () => {
       const newConfig = new ImageProcessingConfig()
@@ -158,5 +846,13 @@ describe('ImagePipelineService', () => {
       expect(service['config'].sizes).toEqual([{ width: 100 }]);
       expect(service['config'].formats).toEqual([{ type: 'jpeg' }]);
     });
+
+    it('should copy values through setters, so a snapshot does not freeze the shared config', () => {
+      service.updateConfig(new ImageProcessingConfig().setConcurrency(2).snapshot());
+
+      expect(service['config'].concurrency).toBe(2);
+      expect(service['config'].frozen).toBe(false);
+      expect(() => service['config'].setConcurrency(3)).not.toThrow();
+    });
   });
 });
@@ -1,87 +1,286 @@
-import { Injectable, Inject } from '@nestjs/common';
-import { StorageDriver } from '../interfaces/storage-driver.interface';
-import { ImageProcessingResult } from '../interfaces/image-processing.interface';
-import { ImageProcessorService } from './image-processor.service';
+import { Injectable, Inject, Optional } from '@nestjs/common';
+import { Readable } from 'stream';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Metadata } from 'sharp';
+import { StorageDriver, StorageObjectInfo } from '../interfaces/storage-driver.interface';
+import {
+  ImageProcessingResult,
+  GeneratedVariant,
+  ImageSize,
+  ImageFormat,
+  ImageProcessingOptions,
+  FocalPoint,
+  MetadataField,
+  SvgPolicy
+} from '../interfaces/image-processing.interface';
+import { NamingStrategy } from '../interfaces/naming-strategy.interface';
+import { ImageProcessingPreset, ImageProcessingPresets } from '../interfaces/processing-preset.interface';
+import { ImageProcessorService, DecodedImage, OutputMetadata } from './image-processor.service';
 import { ImageProcessingConfig } from '../config/image-processing.config';
 import { ImageValidator } from '../utils/image-validator';
+import { SvgSanitizer } from '../utils/svg-sanitizer';
 import { FileNamingUtils } from '../utils/file-naming.utils';
-import { StorageError, ImageProcessingFailedError } from '../errors/image-processing.errors';
+import { ConcurrencyUtils } from '../utils/concurrency.utils';
+import { ImageResultUtils } from '../utils/image-result.utils';
+import { ImageSizeUtils } from '../utils/image-size.utils';
+import { ImageFormatUtils } from '../utils/image-format.utils';
+import { ExifUtils } from '../utils/exif.utils';
+import { TemplateNamingStrategy } from '../strategies/template-naming.strategy';
+import {
+  StorageError,
+  StorageCapabilityError,
+  ImageProcessingFailedError,
+  ImageContentMismatchError,
+  ImageLimitError,
+  SvgRejectedError,
+  ImageValidationError,
+  InvalidConfigurationError,
+  UnknownPresetError,
+} from '../errors/image-processing.errors';
 
 export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+export const NAMING_STRATEGY = Symbol('NAMING_STRATEGY');
+export const PROCESSING_PRESETS = Symbol('PROCESSING_PRESETS');
+
+interface ResolvedPreset {
+  overrides: Partial<ImageProcessingPreset>;
+  namingStrategy: NamingStrategy;
+}
+
+// The result as stored next to the original, with the encoder settings and the other
+// options that change the stored files
+interface StoredManifest extends ImageProcessingResult {
+  formats?: string[];
+  settings?: StoredSettings;
+}
+
+interface StoredSettings {
+  autoOrient: boolean;
+  keep: MetadataField[];
+  forceStatic: boolean;
+  posterFrame: number;
+  svgPolicy: SvgPolicy;
+  svgDensity: number;
+}
 
 @Injectable()
 export class ImagePipelineService {
+  private readonly namingStrategy: NamingStrategy;
+  private readonly presets = new Map<string, ResolvedPreset>();
+
   constructor(
     private readonly imageProcessor: ImageProcessorService,
     @Inject(STORAGE_DRIVER)
     private readonly storageDriver: StorageDriver,
-    private readonly config: ImageProcessingConfig
-  ) {}
+    private readonly config: ImageProcessingConfig,
+    @Optional() @Inject(NAMING_STRATEGY)
+    namingStrategy?: NamingStrategy,
+    @Optional() @Inject(PROCESSING_PRESETS)
+    presets?: ImageProcessingPresets
+  ) {
+    this.namingStrategy = namingStrategy || new TemplateNamingStrategy();
+    this.assertSupportedOutputs(this.config);
+    for (const [name, preset] of Object.entries(presets || {})) {
+      this.presets.set(name, this.createPreset(name, preset));
+    }
+  }
 
   async processImage(
     buffer: Buffer,
     originalFilename: string,
-    mimeType?: string,
+    mimeTypeOrOptions?: string | ImageProcessingOptions,
     maxSizeInBytes?: number
   ): Promise<ImageProcessingResult> {
+    const options: ImageProcessingOptions = typeof mimeTypeOrOptions === 'object'
+      ? mimeTypeOrOptions
+      : { mimeType: mimeTypeOrOptions, maxSizeInBytes };
+    const focalPoint = this.resolveFocalPoint(options);
+    const { config, namingStrategy } = this.resolveConfig(options);
+
     try {
       // Validate input
-      ImageValidator.validateFile(buffer, originalFilename, mimeType, maxSizeInBytes);
+      ImageValidator.validateFile(
+        buffer,
+        originalFilename,
+        options.mimeType,
+        options.maxSizeInBytes,
+        config.strictValidation
+      );
+
+      // SVGs go through the configured policy before sharp parses them
+      const source = await this.applySvgPolicy(config, buffer, originalFilename, options.mimeType);
 
       // Validate image with Sharp
-      const isValidImage = await this.imageProcessor.validateImage(buffer);
+      const isValidImage = await this.imageProcessor.validateImage(source.buffer);
       if (!isValidImage) {
         throw new ImageProcessingFailedError('Invalid image file');
       }
 
-      // Generate original filename and path
-      const originalPath = FileNamingUtils.generateOriginalPath(originalFilename);
-      
+      // Reject oversized images from header metadata, before any pixels are decoded.
+      // Animated variants decode every frame, so then all frames count.
+      const metadata = await this.imageProcessor.getImageMetadata(source.buffer);
+      const { forceStatic, posterFrame } = config.animation;
+      const frames = metadata.pages || 1;
+      const animated = frames > 1 && !forceStatic;
+      const isAnimatedFormat = (format: ImageFormat) => animated && ImageProcessorService.supportsAnimation(format.type);
+      ImageValidator.validateDimensions(metadata, config.limits, config.formats.some(isAnimatedFormat));
+
+      // Generate original path, variants share its ID. With deduplication the ID is
+      // the content hash, so identical uploads map to the same storage keys. A focal
+      // point changes every crop, so it gets keys of its own rather than overwriting.
+      const id = config.deduplicate
+        ? this.getContentId(source.buffer, focalPoint)
+        : uuidv4();
+      const originalPath = namingStrategy.generateOriginalPath({ id, originalName: source.filename });
+      const manifestPath = this.getManifestPath(originalPath);
+
+      if (config.deduplicate) {
+        const existing = await this.findProcessedResult(config, manifestPath, focalPoint);
+        if (existing) {
+          return { ...existing, deduplicated: true };
+        }
+      }
+
       // Upload original file
-      await this.uploadFile(originalPath, buffer);
-      
-      // Process image in different sizes, formats and DPR ratios
-      const generatedFiles: { [format: string]: string[] } = {};
+      await this.uploadFile(originalPath, source.buffer);
       
-      // Initialize format arrays
-      for (const format of this.config.formats) {
-        generatedFiles[format.type] = [];
+      // Animated sources are re-read for each animated variant, since every frame is
+      // needed. Everything else is encoded from one decoded (poster) frame.
+      const limitInputPixels = ImageValidator.getInputPixelLimit(config.limits);
+      const { autoOrient } = config.metadata;
+
+      // Decode once, then encode and upload every size, format and DPR ratio in parallel
+      let poster: DecodedImage | undefined;
+      if (!config.formats.every(isAnimatedFormat)) {
+        poster = await this.imageProcessor.decodeImage(
+          source.buffer,
+          limitInputPixels,
+          Math.min(posterFrame, frames - 1),
+          autoOrient
+        );
       }
-      
-      for (const size of this.config.sizes) {
-        for (const format of this.config.formats) {
-          for (const dprRatio of this.config.dpr.ratios) {
-            try {
-              // Calculate actual size for DPR
-              const actualSize = {
-                width: size.width * dprRatio,
-                height: size.height ? size.height * dprRatio : undefined
-              };
-
-              const processedImage = await this.imageProcessor.processImage(buffer, actualSize, format);
-              const generatedFileName = FileNamingUtils.generateFileName(
-                originalFilename,
-                size.width,
-                format.type,
-                dprRatio
-              );
-              
-              const generatedPath = await this.uploadFile(generatedFileName, processedImage.buffer);
-              generatedFiles[format.type].push(generatedPath);
-            } catch (error) {
-              // Log error but continue processing other sizes/formats/DPR
-              console.error(`Failed to process image for size ${size.width}, format ${format.type}, DPR ${dprRatio}:`, error);
-            }
+      const outputMetadata = this.getOutputMetadata(config, metadata);
+      const jobs: Array<{ size: ImageSize; format: ImageFormat; dprRatio: number }> = [];
+      for (const size of config.sizes) {
+        for (const format of config.formats) {
+          for (const dprRatio of config.dpr.ratios) {
+            jobs.push({ size, format, dprRatio });
           }
         }
       }
 
-      return {
+      const variants = await ConcurrencyUtils.map(jobs, config.concurrency, async ({ size, format, dprRatio }) => {
+        try {
+          // Calculate actual size for DPR
+          const actualSize = {
+            ...size,
+            width: size.width * dprRatio,
+            height: size.height ? size.height * dprRatio : undefined
+          };
+
+          const processedImage = isAnimatedFormat(format)
+            ? await this.imageProcessor.processImage(source.buffer, actualSize, format, { limitInputPixels, animated: true, focalPoint, autoOrient })
+            : await this.imageProcessor.processImage(poster, actualSize, format, { focalPoint, metadata: outputMetadata });
+          const generatedFileName = namingStrategy.generateVariantPath({
+            id,
+            originalName: source.filename,
+            originalPath,
+            width: size.width,
+            height: size.height,
+            fit: size.fit,
+            position: size.position,
+            dpr: dprRatio,
+            format: format.type
+          });
+
+          const generatedPath = await this.uploadFile(generatedFileName, processedImage.buffer);
+          const variant: GeneratedVariant = {
+            path: generatedPath,
+            format: format.type,
+            width: size.width,
+            sizeKey: ImageSizeUtils.getKey(size),
+            dpr: dprRatio,
+            pixelWidth: processedImage.width,
+            pixelHeight: processedImage.height,
+            bytes: processedImage.buffer.length,
+            quality: processedImage.quality
+          };
+          if (processedImage.frames) {
+            variant.frames = processedImage.frames;
+          }
+          return variant;
+        } catch (error) {
+          // Log error but continue processing other sizes/formats/DPR
+          console.error(`Failed to process image for size ${size.width}, format ${format.type}, DPR ${dprRatio}:`, error);
+          return null;
+        }
+      });
+
+      const generatedFiles: { [format: string]: GeneratedVariant[] } = {};
+      for (const format of config.formats) {
+        generatedFiles[format.type] = [];
+      }
+      for (const variant of variants) {
+        if (variant) {
+          generatedFiles[variant.format].push(variant);
+        }
+      }
+
+      const result: ImageProcessingResult = {
         original: originalPath,
-        generated: generatedFiles
+        // Dimensions as displayed, so they match the variants
+        originalMetadata: {
+          ...(autoOrient && metadata.orientation >= 5
+            ? { width: metadata.height, height: metadata.width }
+            : { width: metadata.width, height: metadata.height }),
+          format: metadata.format,
+          bytes: source.buffer.length,
+          frames,
+          ...(frames > 1 && metadata.delay && { duration: metadata.delay.reduce((total, delay) => total + delay, 0) })
+        },
+        generated: generatedFiles,
+        deduplicated: false
       };
+      if (focalPoint) {
+        result.focalPoint = focalPoint;
+      }
+      if (options.regionOfInterest) {
+        result.regionOfInterest = options.regionOfInterest;
+      }
+      if (config.hasPlaceholders) {
+        result.placeholders = await this.imageProcessor.createPlaceholders(
+          poster || source.buffer,
+          config.placeholders,
+          limitInputPixels
+        );
+      }
+      if (config.palette.enabled) {
+        result.palette = await this.imageProcessor.extractPalette(
+          poster || source.buffer,
+          { count: config.palette.count },
+          limitInputPixels
+        );
+      }
+
+      if (config.deduplicate) {
+        const manifest: StoredManifest = {
+          ...result,
+          formats: config.formats.map(format => ImageFormatUtils.getKey(format)),
+          settings: this.getStoredSettings(config)
+        };
+        await this.uploadFile(manifestPath, Buffer.from(JSON.stringify(manifest)));
+      }
+
+      return result;
     } catch (error) {
-      if (error instanceof StorageError || error instanceof ImageProcessingFailedError) {
+      if (
+        error instanceof StorageError ||
+        error instanceof ImageProcessingFailedError ||
+        error instanceof ImageContentMismatchError ||
+        error instanceof ImageLimitError ||
+        error instanceof SvgRejectedError
+      ) {
         throw error;
       }
       throw new ImageProcessingFailedError(
@@ -113,8 +312,297 @@ export class ImagePipelineService {
     }
   }
 
+  async getImageStream(imagePath: string): Promise<Readable> {
+    try {
+      if (this.storageDriver.downloadStream) {
+        return await this.storageDriver.downloadStream(imagePath);
+      }
+      return Readable.from(await this.storageDriver.download(imagePath));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to get image stream: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  async imageExists(imagePath: string): Promise<boolean> {
+    this.assertCapability('exists');
+    try {
+      return await this.storageDriver.exists(imagePath);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to check image existence: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  async statImage(imagePath: string): Promise<StorageObjectInfo> {
+    this.assertCapability('stat');
+    try {
+      return await this.storageDriver.stat(imagePath);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to stat image: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  // Pass the preset the image was processed with, so its naming strategy is used
+  async listVariants(originalPath: string, preset?: string): Promise<string[]> {
+    this.assertCapability('list');
+    const namingStrategy = this.getPreset(preset)?.namingStrategy || this.namingStrategy;
+    try {
+      const paths = await this.storageDriver.list(namingStrategy.getVariantPrefix(originalPath));
+      return paths.filter(path => namingStrategy.isVariantPath(originalPath, path));
+    } catch (error) {
+      throw new StorageError(
+        `Failed to list image variants: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  async copyImage(sourcePath: string, destinationPath: string): Promise<string> {
+    this.assertCapability('copy');
+    try {
+      return await this.storageDriver.copy(sourcePath, destinationPath);
+    } catch (error) {
+      throw new StorageError(
+        `Failed to copy image: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  private async applySvgPolicy(
+    config: ImageProcessingConfig,
+    buffer: Buffer,
+    filename: string,
+    mimeType?: string
+  ): Promise<{ buffer: Buffer; filename: string }> {
+    if (!(await this.isSvg(buffer, filename, mimeType))) {
+      return { buffer, filename };
+    }
+
+    if (config.svgPolicy === 'reject') {
+      throw new SvgRejectedError();
+    }
+
+    // Stored as .svg whatever the upload was called, so it is never served as a raster type
+    const sanitized = Buffer.from(SvgSanitizer.sanitize(buffer.toString('utf8')));
+    if (config.svgPolicy === 'sanitize') {
+      return { buffer: sanitized, filename: `${FileNamingUtils.getBaseName(filename)}.svg` };
+    }
+
+    const raster = await this.imageProcessor.rasterizeSvg(
+      sanitized,
+      config.svgDensity,
+      ImageValidator.getInputPixelLimit(config.limits)
+    );
+    return { buffer: raster, filename: `${FileNamingUtils.getBaseName(filename)}.png` };
+  }
+
+  // The signature, name and MIME type catch most SVGs before sharp parses them. sharp
+  // has the final say, since it decodes SVGs the signature check does not recognize.
+  private async isSvg(buffer: Buffer, filename: string, mimeType?: string): Promise<boolean> {
+    if (
+      ImageValidator.detectFormat(buffer) === 'svg' ||
+      FileNamingUtils.getFileExtension(filename).toLowerCase() === '.svg' ||
+      mimeType?.toLowerCase() === 'image/svg+xml'
+    ) {
+      return true;
+    }
+    try {
+      return (await this.imageProcessor.getImageMetadata(buffer)).format === 'svg';
+    } catch {
+      // Not an image sharp can read; validateImage rejects it next
+      return false;
+    }
+  }
+
+  // Overrides are checked once here, so a broken preset fails at startup rather than on upload
+  private createPreset(name: string, preset: ImageProcessingPreset): ResolvedPreset {
+    const { namingStrategy, basePath, ...overrides } = preset;
+    if (namingStrategy && basePath !== undefined) {
+      throw new InvalidConfigurationError(`Preset ${name} sets both namingStrategy and basePath`);
+    }
+    this.assertSupportedOutputs(this.config.extend(overrides));
+
+    return {
+      overrides,
+      namingStrategy: namingStrategy ||
+        (basePath !== undefined ? new TemplateNamingStrategy({ basePath }) : this.namingStrategy)
+    };
+  }
+
+  // Layers the module config (or a per-call ImageProcessingConfig), the preset and the per-call
+  // overrides into a snapshot, so concurrent calls and later config changes cannot affect each other
+  private resolveConfig(options: ImageProcessingOptions): { config: ImageProcessingConfig; namingStrategy: NamingStrategy } {
+    const preset = this.getPreset(options.preset);
+    const callConfig = options.config;
+    const base = callConfig instanceof ImageProcessingConfig ? callConfig : this.config;
+    const overrides = callConfig instanceof ImageProcessingConfig ? {} : callConfig || {};
+
+    const config = base.extend(preset?.overrides || {}).extend(overrides).snapshot();
+    this.assertSupportedOutputs(config);
+
+    return {
+      config,
+      namingStrategy: preset?.namingStrategy || this.namingStrategy
+    };
+  }
+
+  // Encoders depend on how libvips was built, so fail on configuration rather than on the first upload
+  private assertSupportedOutputs(config: ImageProcessingConfig): void {
+    const { output } = this.imageProcessor.getCapabilities();
+    for (const format of config.formats) {
+      if (!output.includes(format.type)) {
+        throw new InvalidConfigurationError(`Output format ${format.type} is not supported by this libvips build`);
+      }
+    }
+  }
+
+  private getPreset(name?: string): ResolvedPreset | undefined {
+    if (name === undefined) {
+      return undefined;
+    }
+    const preset = this.presets.get(name);
+    if (!preset) {
+      throw new UnknownPresetError(name);
+    }
+    return preset;
+  }
+
+  // A region of interest is cropped around its center; both are validated before any work starts
+  private resolveFocalPoint(options: ImageProcessingOptions): FocalPoint | undefined {
+    const { focalPoint, regionOfInterest } = options;
+    if (focalPoint && regionOfInterest) {
+      throw new ImageValidationError('Pass either a focal point or a region of interest, not both', 'INVALID_FOCAL_POINT');
+    }
+    if (focalPoint) {
+      ImageValidator.validateFocalPoint(focalPoint);
+      return { x: focalPoint.x, y: focalPoint.y };
+    }
+    if (regionOfInterest) {
+      ImageValidator.validateRegionOfInterest(regionOfInterest);
+      return {
+        x: regionOfInterest.left + regionOfInterest.width / 2,
+        y: regionOfInterest.top + regionOfInterest.height / 2
+      };
+    }
+    return undefined;
+  }
+
+  // CMYK and tagged sources were converted to sRGB when decoded, so their variants
+  // embed the sRGB profile to say so. GPS and every other EXIF field are dropped.
+  private getOutputMetadata(config: ImageProcessingConfig, metadata: Metadata): OutputMetadata {
+    const { keep } = config.metadata;
+    const outputMetadata: OutputMetadata = {
+      icc: keep.includes('icc') || metadata.space === 'cmyk' || !!metadata.icc
+    };
+    const copyright = ExifUtils.getString(ExifUtils.parse(metadata.exif).ifd0, ExifUtils.TAGS.COPYRIGHT);
+    if (keep.includes('copyright') && copyright) {
+      outputMetadata.copyright = copyright;
+    }
+    return outputMetadata;
+  }
+
+  // The stored result of a deduplicated upload lives next to its original
+  private getManifestPath(originalPath: string): string {
+    return `${originalPath}.json`;
+  }
+
+  private getContentId(buffer: Buffer, focalPoint?: FocalPoint): string {
+    const hash = createHash('sha256').update(buffer).digest('hex');
+    return focalPoint ? `${hash}-${focalPoint.x}-${focalPoint.y}` : hash;
+  }
+
+  private getStoredSettings(config: ImageProcessingConfig): StoredSettings {
+    const { autoOrient, keep } = config.metadata;
+    const { forceStatic, posterFrame } = config.animation;
+    return {
+      autoOrient,
+      keep: [...keep].sort(),
+      forceStatic,
+      posterFrame,
+      svgPolicy: config.svgPolicy,
+      svgDensity: config.svgDensity
+    };
+  }
+
+  // A stored result is reused only if it covers the current sizes, DPR ratios and encoder
+  // settings, was made with the same metadata, animation and SVG options, was cropped
+  // around the same focal point, has the enabled placeholders and palette and every file
+  // still exists
+  private async findProcessedResult(
+    config: ImageProcessingConfig,
+    manifestPath: string,
+    focalPoint?: FocalPoint
+  ): Promise<ImageProcessingResult | null> {
+    this.assertCapability('exists');
+    try {
+      if (!(await this.storageDriver.exists(manifestPath))) {
+        return null;
+      }
+
+      let stored: StoredManifest;
+      try {
+        stored = JSON.parse((await this.storageDriver.download(manifestPath)).toString('utf8'));
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          return null;
+        }
+        throw error;
+      }
+      const { formats: formatKeys = [], settings, ...manifest } = stored;
+
+      const variants = ImageResultUtils.getAllVariants(manifest);
+      const expected = config.formats.length * config.sizes.length * config.dpr.ratios.length;
+      const coversConfig = variants.length === expected && config.formats.every(format =>
+        formatKeys.includes(ImageFormatUtils.getKey(format)) &&
+        config.sizes.every(size =>
+          config.dpr.ratios.every(dprRatio =>
+            (manifest.generated[format.type] || []).some(variant =>
+              variant.sizeKey === ImageSizeUtils.getKey(size) && variant.dpr === dprRatio
+            )
+          )
+        )
+      );
+      const sameSettings = JSON.stringify(settings) === JSON.stringify(this.getStoredSettings(config));
+      const sameFocalPoint = manifest.focalPoint?.x === focalPoint?.x && manifest.focalPoint?.y === focalPoint?.y;
+      const { lqip, blurhash, svg, dominantColor } = config.placeholders;
+      const hasPlaceholders = Object.entries({ lqip, blurhash, svg, dominantColor })
+        .every(([kind, enabled]) => !enabled || manifest.placeholders?.[kind] !== undefined);
+      const hasPalette = !config.palette.enabled || manifest.palette !== undefined;
+      if (!coversConfig || !sameSettings || !sameFocalPoint || !hasPlaceholders || !hasPalette) {
+        return null;
+      }
+
+      const paths = [manifest.original, ...variants.map(variant => variant.path)];
+      const existing = await ConcurrencyUtils.map(paths, config.concurrency, path => this.storageDriver.exists(path));
+      return existing.every(Boolean) ? manifest : null;
+    } catch (error) {
+      throw new StorageError(
+        `Failed to look up processed image: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  private assertCapability(operation: 'exists' | 'stat' | 'list' | 'copy'): void {
+    if (typeof this.storageDriver[operation] !== 'function') {
+      throw new StorageCapabilityError(operation);
+    }
+  }
+
   private async uploadFile(filename: string, buffer: Buffer): Promise<string> {
     try {
+      if (this.storageDriver.uploadStream) {
+        return await this.storageDriver.uploadStream(filename, Readable.from(buffer));
+      }
       return await this.storageDriver.upload(filename, buffer);
     } catch (error) {
       throw new StorageError(
@@ -124,7 +612,25 @@ export class ImagePipelineService {
     }
   }
 
+  /**
+   * @deprecated Changes the config shared by every caller, including calls in progress
+   * elsewhere. Pass `{ config }` or `{ preset }` to processImage instead.
+   */
   updateConfig(config: ImageProcessingConfig): void {
-    Object.assign(this.config, config);
+    this.assertSupportedOutputs(config);
+    const options = config.toOptions();
+    this.config
+      .setSizes(options.sizes)
+      .setFormats(options.formats)
+      .setDPR(options.dpr)
+      .setConcurrency(options.concurrency)
+      .setDeduplicate(options.deduplicate)
+      .setStrictValidation(options.strictValidation)
+      .setLimits(options.limits)
+      .setSvgPolicy(options.svgPolicy, options.svgDensity)
+      .setAnimation(options.animation)
+      .setPlaceholders(options.placeholders)
+      .setPalette(options.palette)
+      .setMetadata(options.metadata);
   }
 }
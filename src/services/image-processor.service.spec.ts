@@ -0,0 +1,490 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import sharp from 'sharp';
+import { ImageProcessorService } from './image-processor.service';
+import { ImagePipelineService } from './image-pipeline.service';
+import { ImageProcessingConfig } from '../config/image-processing.config';
+import { InMemoryStorageDriver } from '../drivers/in-memory.storage-driver';
+import { ImageProcessorTestingModule } from '../testing/image-processor-testing.module';
+import { ImageFixtures } from '../testing/image-fixtures';
+import { AnimationOptions, ImageFormat, ImageSize, MetadataOptions, SvgPolicy } from '../interfaces/image-processing.interface';
+import { ImageLimitError, SvgRejectedError } from '../errors/image-processing.errors';
+import { ExifUtils } from '../utils/exif.utils';
+
+// Real sharp encodes; pipelines write to a fresh in-memory driver for every test
+describe('ImageProcessorService', () => {
+  const imageProcessor = new ImageProcessorService();
+  let storage: InMemoryStorageDriver;
+
+  beforeEach(() => {
+    storage = new InMemoryStorageDriver();
+  });
+
+  // The testing module's config with one DPR ratio, adjusted by the test
+  const createPipeline = (configure: (config: ImageProcessingConfig) => ImageProcessingConfig = config => config) =>
+    new ImagePipelineService(imageProcessor, storage, configure(ImageProcessorTestingModule.createTestConfig().setDPR({ ratios: [1] })));
+
+  describe('crop and fit', () => {
+    const withSizes = (sizes: ImageSize[]) => createPipeline(config => config.setSizes(sizes).setFormats([{ type: 'png' }]));
+
+    it('should keep sizes that share a width apart', async () => {
+      const buffer = await ImageFixtures.solidColor({ width: 100, height: 50 });
+
+      const result = await withSizes([
+        { width: 16 },
+        { width: 16, height: 16, fit: 'cover', position: 'attention' }
+      ]).processImage(buffer, 'photo.png', 'image/png');
+
+      expect(result.generated.png).toMatchObject([
+        { sizeKey: '16w', pixelWidth: 16, pixelHeight: 8 },
+        { sizeKey: '16x16-cover-attention', pixelWidth: 16, pixelHeight: 16 }
+      ]);
+      expect(new Set(result.generated.png.map(variant => variant.path)).size).toBe(2);
+    });
+
+    it('should letterbox with the background color when containing', async () => {
+      const buffer = await ImageFixtures.solidColor({ width: 100, height: 50, color: '#ff0000' });
+
+      const result = await withSizes([{ width: 20, height: 20, fit: 'contain', background: '#00ff00' }])
+        .processImage(buffer, 'photo.png', 'image/png');
+
+      const { data, info } = await sharp(storage.get(result.generated.png[0].path)).raw().toBuffer({ resolveWithObject: true });
+      expect(info).toMatchObject({ width: 20, height: 20 });
+      expect([...data.subarray(0, 3)]).toEqual([0, 255, 0]);
+    });
+
+    it('should keep the focal point in frame', async () => {
+      // Left half red, right half blue
+      const buffer = await ImageFixtures.exifRotated({ orientation: 1, width: 64, height: 32 });
+      const pipeline = withSizes([{ width: 16, height: 16, fit: 'cover' }]);
+
+      const left = await pipeline.processImage(buffer, 'photo.jpg', { focalPoint: { x: 0.1, y: 0.5 } });
+      const right = await pipeline.processImage(buffer, 'photo.jpg', { focalPoint: { x: 0.9, y: 0.5 } });
+
+      const dominantChannel = async (path: string) => {
+        const { data } = await sharp(storage.get(path)).extract({ left: 8, top: 8, width: 1, height: 1 }).raw().toBuffer({ resolveWithObject: true });
+        return data.indexOf(Math.max(...data));
+      };
+      expect(await dominantChannel(left.generated.png[0].path)).toBe(0);
+      expect(await dominantChannel(right.generated.png[0].path)).toBe(2);
+      expect(right.focalPoint).toEqual({ x: 0.9, y: 0.5 });
+    });
+
+    it('should only enlarge when allowed', async () => {
+      const buffer = await ImageFixtures.solidColor({ width: 10, height: 10 });
+
+      const result = await withSizes([{ width: 40 }, { width: 40, height: 40, allowEnlargement: true }])
+        .processImage(buffer, 'small.png', 'image/png');
+
+      expect(result.generated.png.map(variant => variant.pixelWidth)).toEqual([10, 40]);
+    });
+  });
+
+  describe('encoder options', () => {
+    const encode = (format: ImageFormat) => imageProcessor
+      .processImage(ImageFixtures.svg({ width: 64, height: 64 }), { width: 64 }, format);
+
+    it('should write lossless PNG unless a palette is requested', async () => {
+      const lossless = await encode({ type: 'png' });
+      const palette = await encode({ type: 'png', palette: true, colors: 16 });
+
+      expect(lossless.quality).toBeUndefined();
+      expect((await sharp(lossless.buffer).metadata()).paletteBitDepth).toBeUndefined();
+      expect(palette.quality).toBe(80);
+      expect((await sharp(palette.buffer).metadata()).paletteBitDepth).toBe(4);
+    });
+
+    it('should report what the installed libvips can read and write', () => {
+      const { input, output } = imageProcessor.getCapabilities();
+
+      expect(input).toEqual(expect.arrayContaining(['jpeg', 'png', 'webp', 'gif', 'svg']));
+      expect(output).toEqual(expect.arrayContaining(['jpeg', 'png', 'webp', 'gif', 'tiff', 'avif']));
+      expect(output).not.toContain('svg');
+    });
+
+    it('should write GIF and TIFF', async () => {
+      const gif = await encode({ type: 'gif', colors: 16 });
+      const tiff = await encode({ type: 'tiff', quality: 90 });
+
+      expect(gif.quality).toBeUndefined();
+      expect((await sharp(gif.buffer).metadata()).format).toBe('gif');
+      expect(tiff.quality).toBe(90);
+      expect((await sharp(tiff.buffer).metadata()).format).toBe('tiff');
+    });
+
+    it('should pass JPEG options to the encoder', async () => {
+      const { buffer } = await encode({ type: 'jpeg', progressive: true, mozjpeg: true, chromaSubsampling: '4:4:4' });
+
+      expect(await sharp(buffer).metadata()).toMatchObject({ isProgressive: true, chromaSubsampling: '4:4:4' });
+    });
+  });
+
+  describe('placeholders', () => {
+    it('should create every placeholder kind', async () => {
+      const buffer = await ImageFixtures.solidColor({ width: 120, height: 60, color: '#0000ff' });
+
+      const placeholders = await imageProcessor.createPlaceholders(buffer, {
+        ...ImageProcessingConfig.DEFAULT_PLACEHOLDERS,
+        lqip: true,
+        blurhash: true,
+        svg: true,
+        dominantColor: true
+      });
+
+      const decode = (dataUri: string) => Buffer.from(dataUri.split(',')[1], 'base64');
+      expect(placeholders.lqip).toMatch(/^data:image\/webp;base64,/);
+      expect(await sharp(decode(placeholders.lqip)).metadata()).toMatchObject({ width: 16, height: 8 });
+      expect(placeholders.svg).toMatch(/^data:image\/svg\+xml;base64,/);
+      expect(await sharp(decode(placeholders.svg)).metadata()).toMatchObject({ format: 'svg', width: 4, height: 2 });
+      expect(placeholders.blurhash).toHaveLength(28);
+      expect(placeholders.dominantColor).toMatch(/^#0[0-9a-f]0[0-9a-f]f[0-9a-f]$/);
+    });
+  });
+
+  describe('palette', () => {
+    // 60 columns red, 20 blue, 20 transparent
+    const createImage = () => sharp({ create: { width: 100, height: 40, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .composite([
+        { input: { create: { width: 60, height: 40, channels: 3, background: '#ff0000' } }, left: 0, top: 0 },
+        { input: { create: { width: 20, height: 40, channels: 3, background: '#0000ff' } }, left: 60, top: 0 }
+      ])
+      .png()
+      .toBuffer();
+
+    it('should report colors by share of the opaque pixels', async () => {
+      const palette = await imageProcessor.extractPalette(await createImage(), { count: 5 });
+
+      expect(palette.dominant).toBe('#ff0000');
+      expect(palette.colors.map(color => color.hex)).toEqual(['#ff0000', '#0000ff']);
+      expect(palette.colors[0].share).toBeCloseTo(0.75, 1);
+      expect(palette.colors[1].share).toBeCloseTo(0.25, 1);
+    });
+
+    it('should limit the palette size', async () => {
+      const noise = await sharp({ create: { width: 40, height: 40, channels: 3, noise: { type: 'gaussian', mean: 128, sigma: 40 } } })
+        .png()
+        .toBuffer();
+
+      const { colors } = await imageProcessor.extractPalette(noise, { count: 3 });
+
+      expect(colors).toHaveLength(3);
+      expect(colors.reduce((total, color) => total + color.share, 0)).toBeCloseTo(1);
+    });
+
+    it('should have no colors for a fully transparent image', async () => {
+      const palette = await imageProcessor.extractPalette(await ImageFixtures.withAlpha({ alpha: 0 }));
+
+      expect(palette).toEqual({ dominant: undefined, colors: [] });
+    });
+
+    it('should be included in the result when enabled', async () => {
+      const result = await createPipeline(config => config.setPalette({ enabled: true, count: 2 }))
+        .processImage(await createImage(), 'flag.png', 'image/png');
+
+      expect(result.palette.colors.map(color => color.hex)).toEqual(['#ff0000', '#0000ff']);
+    });
+  });
+
+  describe('metadata', () => {
+    const withMetadata = (metadata: MetadataOptions = {}, format: ImageFormat = { type: 'png' }) =>
+      createPipeline(config => config.setSizes([{ width: 64 }]).setFormats([format]).setMetadata(metadata));
+
+    const readPixels = async (path: string) => {
+      const { data, info } = await sharp(storage.get(path)).raw().toBuffer({ resolveWithObject: true });
+      const pixel = (x: number, y: number) => {
+        const offset = (y * info.width + x) * info.channels;
+        return [...data.subarray(offset, offset + 3)].map(value => Math.round(value / 255));
+      };
+      return { info, pixel };
+    };
+
+    // The 'desc' tag of an ICC profile, either the v2 ASCII or the v4 UTF-16 form
+    const getProfileDescription = (icc: Buffer) => {
+      for (let i = 0; i < icc.readUInt32BE(128); i++) {
+        const entry = 132 + i * 12;
+        if (icc.toString('latin1', entry, entry + 4) === 'desc') {
+          const offset = icc.readUInt32BE(entry + 4);
+          if (icc.toString('latin1', offset, offset + 4) === 'mluc') {
+            const start = offset + icc.readUInt32BE(offset + 24);
+            return Buffer.from(icc.subarray(start, start + icc.readUInt32BE(offset + 20))).swap16().toString('utf16le');
+          }
+          return icc.toString('latin1', offset + 12, offset + 12 + icc.readUInt32BE(offset + 8)).replace(/\0+$/, '');
+        }
+      }
+      return undefined;
+    };
+
+    it.each([1, 2, 3, 4, 5, 6, 7, 8])('should apply EXIF orientation %i', async orientation => {
+      const buffer = await ImageFixtures.oriented({ orientation });
+
+      const result = await withMetadata().processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+      const { info, pixel } = await readPixels(result.generated.png[0].path);
+      expect(info).toMatchObject({ width: 64, height: 32 });
+      expect([pixel(16, 8), pixel(48, 8), pixel(16, 24), pixel(48, 24)]).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 1, 1]]);
+      expect(result.originalMetadata).toMatchObject({ width: 64, height: 32 });
+      expect((await sharp(storage.get(result.generated.png[0].path)).metadata()).orientation ?? 1).toBe(1);
+    });
+
+    it('should keep the stored pixels when auto-orient is off', async () => {
+      const buffer = await ImageFixtures.oriented({ orientation: 6 });
+
+      const result = await withMetadata({ autoOrient: false }).processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+      const { info } = await readPixels(result.generated.png[0].path);
+      expect(info).toMatchObject({ width: 32, height: 64 });
+      expect(result.originalMetadata).toMatchObject({ width: 32, height: 64 });
+    });
+
+    it('should strip metadata by default', async () => {
+      const buffer = await ImageFixtures.solidColor();
+
+      const result = await withMetadata().processImage(buffer, 'photo.png', 'image/png');
+
+      const metadata = await sharp(storage.get(result.generated.png[0].path)).metadata();
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.hasProfile).toBe(false);
+    });
+
+    it('should drop the copyright notice and GPS data by default', async () => {
+      const buffer = await ImageFixtures.withExif({ copyright: 'ACME', latitude: 51.5, longitude: -0.12 });
+
+      const result = await withMetadata({}, { type: 'jpeg' }).processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+      const exif = ExifUtils.parse((await sharp(storage.get(result.generated.jpeg[0].path)).metadata()).exif);
+      expect(exif.ifd0[ExifUtils.TAGS.COPYRIGHT]).toBeUndefined();
+      expect(exif.gps).toEqual({});
+    });
+
+    it('should keep the copyright notice but never GPS data', async () => {
+      const buffer = await ImageFixtures.withExif({ copyright: 'ACME', latitude: 51.5, longitude: -0.12 });
+      expect(ExifUtils.parse((await sharp(buffer).metadata()).exif).gps).not.toEqual({});
+
+      const result = await withMetadata({ keep: ['copyright'] }, { type: 'jpeg' })
+        .processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+      const exif = ExifUtils.parse((await sharp(storage.get(result.generated.jpeg[0].path)).metadata()).exif);
+      expect(exif.ifd0[ExifUtils.TAGS.COPYRIGHT]).toBe('ACME');
+      expect(exif.ifd0[ExifUtils.TAGS.GPS_IFD]).toBeUndefined();
+      expect(exif.gps).toEqual({});
+    });
+
+    it('should embed the sRGB profile when kept', async () => {
+      const buffer = await ImageFixtures.solidColor();
+
+      const result = await withMetadata({ keep: ['icc'] }).processImage(buffer, 'photo.png', 'image/png');
+
+      const metadata = await sharp(storage.get(result.generated.png[0].path)).metadata();
+      expect(metadata).toMatchObject({ space: 'srgb', hasProfile: true });
+    });
+
+    it('should convert CMYK sources to sRGB with an embedded profile', async () => {
+      const buffer = await ImageFixtures.cmyk({ color: '#ff0000' });
+      expect((await sharp(buffer).metadata()).space).toBe('cmyk');
+
+      const result = await withMetadata().processImage(buffer, 'print.jpg', 'image/jpeg');
+
+      const metadata = await sharp(storage.get(result.generated.png[0].path)).metadata();
+      expect(metadata).toMatchObject({ space: 'srgb', channels: 3, hasProfile: true });
+      const { data } = await sharp(storage.get(result.generated.png[0].path)).raw().toBuffer({ resolveWithObject: true });
+      expect(data[0]).toBeGreaterThan(200);
+      expect(data[1]).toBeLessThan(60);
+    });
+
+    it('should convert wide-gamut sources to sRGB with an embedded profile', async () => {
+      // The fixture stores sRGB #c04020 as Display P3 values of about (178, 73, 44); copied
+      // without conversion those would land in the variant instead of the sRGB color
+      const buffer = await ImageFixtures.displayP3({ color: '#c04020' });
+
+      const result = await withMetadata().processImage(buffer, 'photo.jpg', 'image/jpeg');
+
+      const metadata = await sharp(storage.get(result.generated.png[0].path)).metadata();
+      expect(metadata).toMatchObject({ space: 'srgb', hasProfile: true });
+      expect(getProfileDescription((await sharp(buffer).metadata()).icc)).toBe('sP3C');
+      expect(getProfileDescription(metadata.icc)).toBe('sRGB');
+      const { data } = await sharp(storage.get(result.generated.png[0].path)).raw().toBuffer({ resolveWithObject: true });
+      [192, 64, 32].forEach((value, channel) => expect(Math.abs(data[channel] - value)).toBeLessThanOrEqual(3));
+    });
+  });
+
+  describe('image info', () => {
+    it('should decode camera, exposure, location, title and copyright', async () => {
+      const buffer = await ImageFixtures.cameraPhoto();
+
+      const info = await imageProcessor.getImageInfo(buffer);
+
+      expect(info).toEqual({
+        format: 'jpeg',
+        width: 64,
+        height: 48,
+        orientation: 1,
+        bytes: buffer.length,
+        space: 'srgb',
+        channels: 3,
+        hasAlpha: false,
+        hasProfile: true,
+        camera: { make: 'Canon', model: 'Canon EOS R5', serialNumber: '012345678901' },
+        lens: { make: 'Canon', model: 'RF50mm F1.8 STM', serialNumber: '9876543' },
+        exposure: { time: 0.004, fNumber: 2.8, iso: 400, focalLength: 50 },
+        takenAt: '2024-05-17T18:32:10+10:00',
+        location: { latitude: -33.859833, longitude: 151.208333, altitude: 58 },
+        title: 'Harbour at dusk',
+        copyright: '\u00a9 2024 Jane Doe'
+      });
+    });
+
+    it('should drop the location and serial numbers when redacting', async () => {
+      const info = await imageProcessor.getImageInfo(await ImageFixtures.cameraPhoto(), { redact: true });
+
+      expect(info.location).toBeUndefined();
+      expect(info.camera).toEqual({ make: 'Canon', model: 'Canon EOS R5' });
+      expect(info.lens).toEqual({ make: 'Canon', model: 'RF50mm F1.8 STM' });
+      expect(info.takenAt).toBe('2024-05-17T18:32:10+10:00');
+    });
+
+    it('should report the displayed size of rotated images', async () => {
+      const info = await imageProcessor.getImageInfo(await ImageFixtures.cameraPhoto({ orientation: 6 }));
+
+      expect(info).toMatchObject({ width: 48, height: 64, orientation: 6 });
+    });
+
+    it('should describe animations', async () => {
+      const info = await imageProcessor.getImageInfo(await ImageFixtures.animated({ frames: 3, delay: 100, format: 'webp' }));
+
+      expect(info).toMatchObject({ format: 'webp', width: 32, height: 32 });
+      expect(info.animation).toEqual({ frames: 3, loop: 0, delays: [100, 100, 100], duration: 300 });
+    });
+
+    it('should omit groups the image has no data for', async () => {
+      const buffer = await ImageFixtures.withAlpha();
+
+      expect(await imageProcessor.getImageInfo(buffer)).toEqual({
+        format: 'png',
+        width: 64,
+        height: 48,
+        orientation: 1,
+        bytes: buffer.length,
+        space: 'srgb',
+        channels: 4,
+        hasAlpha: true,
+        hasProfile: false
+      });
+    });
+  });
+
+  describe('limits', () => {
+    it('should reject a pixel bomb from its header without storing anything', async () => {
+      await expect(createPipeline().processImage(ImageFixtures.pixelBomb(), 'bomb.png', 'image/png'))
+        .rejects.toMatchObject({ code: 'LIMIT_VIOLATION', limit: 'maxWidth', actual: 50000 });
+      expect(storage.uploads).toHaveLength(0);
+    });
+  });
+
+  describe('animated sources', () => {
+    const withAnimation = (animation: AnimationOptions = {}) =>
+      createPipeline(config => config.setFormats([{ type: 'webp', quality: 50 }, { type: 'png' }]).setAnimation(animation));
+
+    it('should keep every frame in WebP and use the poster frame for PNG', async () => {
+      const buffer = await ImageFixtures.animated({ frames: 3, width: 40, height: 30, delay: 120 });
+
+      const result = await withAnimation({ posterFrame: 1 }).processImage(buffer, 'loop.gif', 'image/gif');
+
+      const [webp] = result.generated.webp;
+      const [png] = result.generated.png;
+      expect(result.originalMetadata).toMatchObject({ frames: 3, duration: 360 });
+      expect(webp).toMatchObject({ frames: 3, pixelWidth: 16, pixelHeight: 12 });
+      expect(png.frames).toBeUndefined();
+      expect(await sharp(storage.get(webp.path)).metadata()).toMatchObject({ pages: 3, delay: [120, 120, 120] });
+      const { data } = await sharp(storage.get(png.path)).raw().toBuffer({ resolveWithObject: true });
+      expect([...data.subarray(0, 3)]).toEqual([0, 255, 0]);
+    });
+
+    it('should keep every frame in GIF output', async () => {
+      const buffer = await ImageFixtures.animated({ format: 'webp', frames: 2 });
+
+      const result = await createPipeline(config => config.setFormats([{ type: 'gif' }]))
+        .processImage(buffer, 'loop.webp', 'image/webp');
+
+      const [gif] = result.generated.gif;
+      expect(gif.frames).toBe(2);
+      expect(gif.path).toMatch(/\.gif$/);
+      expect(await sharp(storage.get(gif.path)).metadata()).toMatchObject({ format: 'gif', pages: 2 });
+    });
+
+    it('should reject animations whose frames together exceed the megapixel limit', async () => {
+      // One 40x20 frame is 0.0008 MP, all three 0.0024 MP
+      const buffer = await ImageFixtures.animated({ frames: 3, width: 40, height: 20 });
+      const pipeline = createPipeline(config => config.setLimits({ maxMegapixels: 0.002 }));
+
+      await expect(pipeline.processImage(buffer, 'loop.gif', 'image/gif')).rejects.toThrow(ImageLimitError);
+    });
+
+    it('should produce still images when forced static', async () => {
+      const buffer = await ImageFixtures.animated({ format: 'webp', frames: 2 });
+
+      const result = await withAnimation({ forceStatic: true }).processImage(buffer, 'loop.webp', 'image/webp');
+
+      const metadata = await sharp(storage.get(result.generated.webp[0].path)).metadata();
+      expect(metadata.pages).toBeUndefined();
+      expect(result.generated.webp[0].frames).toBeUndefined();
+      expect(result.originalMetadata.frames).toBe(2);
+    });
+  });
+
+  describe('SVG policy', () => {
+    const withPolicy = (policy: SvgPolicy) => createPipeline(config => config.setSvgPolicy(policy, 144));
+
+    it('should reject SVGs', async () => {
+      await expect(withPolicy('reject').processImage(ImageFixtures.svg(), 'logo.svg', 'image/svg+xml'))
+        .rejects.toThrow(SvgRejectedError);
+      expect(storage.uploads).toHaveLength(0);
+    });
+
+    it('should reject SVG content uploaded under a raster name', async () => {
+      await expect(withPolicy('reject').processImage(ImageFixtures.svg(), 'logo.png', 'image/png'))
+        .rejects.toMatchObject({ code: 'SVG_REJECTED' });
+    });
+
+    it.each(['entityExpansion', 'script'] as const)('should reject a %s SVG uploaded as PNG', async kind => {
+      await expect(withPolicy('reject').processImage(ImageFixtures.maliciousSvg(kind), 'evil.png', 'image/png'))
+        .rejects.toThrow(SvgRejectedError);
+      expect(storage.uploads).toHaveLength(0);
+    });
+
+    it.each(['entityExpansion', 'script'] as const)('should sanitize a %s SVG uploaded as PNG and store it as SVG', async kind => {
+      const result = await withPolicy('sanitize').processImage(ImageFixtures.maliciousSvg(kind), 'evil.png', 'image/png');
+
+      const stored = storage.get(result.original).toString();
+      expect(result.original).toMatch(/original\.svg$/);
+      expect(stored).not.toMatch(/<script|<!DOCTYPE|<!ENTITY/i);
+      expect(storage.paths.some(path => path.endsWith('.png'))).toBe(false);
+    });
+
+    it('should reject SVGs that only sharp recognizes', async () => {
+      const svg = Buffer.from('<svg:svg xmlns:svg="http://www.w3.org/2000/svg" width="16" height="16"/>');
+
+      await expect(withPolicy('reject').processImage(svg, 'evil.png', 'image/png')).rejects.toThrow(SvgRejectedError);
+      expect(storage.uploads).toHaveLength(0);
+    });
+
+    it('should store a sanitized SVG original', async () => {
+      const result = await withPolicy('sanitize')
+        .processImage(ImageFixtures.maliciousSvg('script'), 'logo.svg', 'image/svg+xml');
+
+      const stored = storage.get(result.original).toString();
+      expect(result.original).toMatch(/original\.svg$/);
+      expect(stored).not.toContain('script');
+      expect(result.generated.webp).toHaveLength(2);
+    });
+
+    it('should store only the raster when rasterizing', async () => {
+      const result = await withPolicy('rasterize')
+        .processImage(ImageFixtures.maliciousSvg('entityExpansion'), 'logo.svg', 'image/svg+xml');
+
+      const metadata = await sharp(storage.get(result.original)).metadata();
+      expect(result.original).toMatch(/original\.png$/);
+      expect(metadata).toMatchObject({ format: 'png', width: 128, height: 96 });
+      expect(result.originalMetadata.format).toBe('png');
+      expect(storage.paths.some(path => path.endsWith('.svg'))).toBe(false);
+    });
+  });
+});
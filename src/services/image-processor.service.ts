@@ -1,65 +1,207 @@
 import { Injectable } from '@nestjs/common';
 import sharp from 'sharp';
-import { ImageSize, ImageFormat } from '../interfaces/image-processing.interface';
-import { ImageProcessingFailedError } from '../errors/image-processing.errors';
+import {
+  ImageSize,
+  ImageFormat,
+  FocalPoint,
+  PlaceholderOptions,
+  ImagePlaceholders,
+  PaletteOptions,
+  ImagePalette,
+  ImageInfo,
+  ImageInfoOptions,
+  ImageDeviceInfo,
+  ImageExposureInfo
+} from '../interfaces/image-processing.interface';
+import { ImageProcessingFailedError, InvalidConfigurationError } from '../errors/image-processing.errors';
+import { ImageSizeUtils } from '../utils/image-size.utils';
+import { ImageFormatUtils } from '../utils/image-format.utils';
+import { BlurHash } from '../utils/blurhash';
+import { ExifUtils } from '../utils/exif.utils';
+import { IptcUtils } from '../utils/iptc.utils';
+import { XmpUtils } from '../utils/xmp.utils';
 
 export interface ProcessedImage {
   buffer: Buffer;
   format: string;
   width: number;
   height: number;
+  quality?: number;
+  // Present when the output kept more than one animation frame
+  frames?: number;
+}
+
+// Uncompressed pixels of a source image, shared by all variants so it is decoded once
+export interface DecodedImage {
+  data: Buffer;
+  info: {
+    width: number;
+    height: number;
+    channels: 1 | 2 | 3 | 4;
+  };
+}
+
+// Format ids from sharp.format plus their aliases, e.g. 'heif' and 'avif'
+export interface ImageCapabilities {
+  // Formats that can be decoded from a buffer
+  input: string[];
+  // Formats that can be encoded to a buffer
+  output: string[];
+}
+
+// Metadata written to a variant; sharp strips everything else
+export interface OutputMetadata {
+  // Embed the sRGB profile; the pixels are always converted to sRGB
+  icc?: boolean;
+  // EXIF copyright notice
+  copyright?: string;
+}
+
+export interface ProcessImageOptions {
+  limitInputPixels?: number;
+  // Keep every frame of an encoded animated input; only applies to Buffer input
+  animated?: boolean;
+  // Kept in frame by cover crops instead of `position`
+  focalPoint?: FocalPoint;
+  // Apply the EXIF orientation, default true; only applies to Buffer input,
+  // decodeImage already orients DecodedImage input
+  autoOrient?: boolean;
+  // Only applies to DecodedImage input; Buffer output keeps no metadata
+  metadata?: OutputMetadata;
 }
 
 @Injectable()
 export class ImageProcessorService {
+  private static readonly ANIMATED_FORMATS = ['webp', 'gif'];
+
+  static supportsAnimation(format: string): boolean {
+    return this.ANIMATED_FORMATS.includes(format);
+  }
+
+  // What the installed libvips build can read and write; optional codecs such as
+  // HEIF, JPEG XL or JPEG 2000 only appear when libvips was built with them
+  getCapabilities(): ImageCapabilities {
+    const capabilities: ImageCapabilities = { input: [], output: [] };
+    for (const { id, input, output } of Object.values(sharp.format)) {
+      const names = [id, ...(output.alias || [])];
+      if (input.buffer) {
+        capabilities.input.push(...names);
+      }
+      if (output.buffer) {
+        capabilities.output.push(...names);
+      }
+    }
+    return capabilities;
+  }
+
   async processImage(
-    buffer: Buffer,
+    input: Buffer | DecodedImage,
     size: ImageSize,
-    format: ImageFormat
+    format: ImageFormat,
+    options: ProcessImageOptions = {}
   ): Promise<ProcessedImage> {
     try {
-      let sharpInstance = sharp(buffer);
+      const { limitInputPixels, animated = false, focalPoint, autoOrient = true, metadata } = options;
+      let sharpInstance = Buffer.isBuffer(input)
+        ? sharp(input, { limitInputPixels, animated })
+        : sharp(input.data, { raw: input.info });
+      if (Buffer.isBuffer(input) && autoOrient) {
+        sharpInstance = sharpInstance.rotate();
+      }
 
-      // Resize image
-      if (size.height) {
-        sharpInstance = sharpInstance.resize(size.width, size.height, {
-          fit: 'inside',
-          withoutEnlargement: true
-        });
-      } else {
-        sharpInstance = sharpInstance.resize(size.width, null, {
-          fit: 'inside',
-          withoutEnlargement: true
+      // Cut the crop around the focal point first; the resize below then only scales
+      if (focalPoint && size.fit === 'cover' && size.height) {
+        const source = Buffer.isBuffer(input) ? await this.getFrameSize(input, autoOrient) : input.info;
+        sharpInstance = sharpInstance.extract(ImageSizeUtils.getFocalCrop(source, size, focalPoint));
+      }
+
+      // Resize image. sharp cannot run content-aware strategies on multi-page
+      // images, so animated crops fall back to the center.
+      const position = animated && ImageSizeUtils.isStrategy(size.position) ? 'center' : size.position;
+      sharpInstance = sharpInstance.resize(size.width, size.height || null, {
+        fit: size.fit || 'inside',
+        position: position || 'center',
+        background: size.background || { r: 0, g: 0, b: 0, alpha: 0 },
+        withoutEnlargement: !size.allowEnlargement
+      });
+
+      // Decoded frames carry no source metadata, so only what is written here reaches
+      // the output. withMetadata embeds the sRGB profile along with the EXIF data.
+      if (!Buffer.isBuffer(input) && (metadata?.icc || metadata?.copyright)) {
+        sharpInstance = sharpInstance.withMetadata({
+          icc: 'srgb',
+          ...(metadata.copyright && { exif: { IFD0: { Copyright: metadata.copyright } } })
         });
       }
 
-      // Convert to specified format
+      // Convert to specified format; sharp ignores options left undefined
+      const quality = ImageFormatUtils.getQuality(format);
       switch (format.type) {
         case 'webp':
-          sharpInstance = sharpInstance.webp({ quality: format.quality || 80 });
+          sharpInstance = sharpInstance.webp({
+            quality,
+            effort: format.effort,
+            lossless: format.lossless,
+            nearLossless: format.nearLossless,
+            alphaQuality: format.alphaQuality,
+            smartSubsample: format.smartSubsample
+          });
           break;
         case 'avif':
-          sharpInstance = sharpInstance.avif({ quality: format.quality || 80 });
+          sharpInstance = sharpInstance.avif({
+            quality,
+            effort: format.effort,
+            lossless: format.lossless,
+            chromaSubsampling: format.chromaSubsampling
+          });
           break;
         case 'jpeg':
-          sharpInstance = sharpInstance.jpeg({ quality: format.quality || 80 });
+          sharpInstance = sharpInstance.jpeg({
+            quality,
+            progressive: format.progressive,
+            mozjpeg: format.mozjpeg,
+            chromaSubsampling: format.chromaSubsampling
+          });
           break;
         case 'png':
-          sharpInstance = sharpInstance.png({ quality: format.quality || 80 });
+          sharpInstance = sharpInstance.png({
+            palette: ImageFormatUtils.usesPalette(format),
+            quality,
+            effort: format.effort,
+            colors: format.colors,
+            compressionLevel: format.compressionLevel,
+            progressive: format.progressive
+          });
+          break;
+        case 'gif':
+          sharpInstance = sharpInstance.gif({
+            colors: format.colors,
+            effort: format.effort
+          });
+          break;
+        case 'tiff':
+          sharpInstance = sharpInstance.tiff({ quality });
           break;
         default:
           throw new ImageProcessingFailedError(`Unsupported output format: ${format.type}`);
       }
 
-      const processedBuffer = await sharpInstance.toBuffer();
-      const metadata = await sharp(processedBuffer).metadata();
+      const { data, info } = await sharpInstance.toBuffer({ resolveWithObject: true });
 
-      return {
-        buffer: processedBuffer,
+      // Animated output stacks its frames vertically; report the size of one frame.
+      // sharp sets pageHeight and pages at runtime but its typings omit them.
+      const { pageHeight, pages } = info as sharp.OutputInfo & { pageHeight?: number; pages?: number };
+      const processed: ProcessedImage = {
+        buffer: data,
         format: format.type,
-        width: metadata.width || size.width,
-        height: metadata.height || size.height || 0
+        width: info.width || size.width,
+        height: pageHeight || info.height || size.height || 0,
+        quality
       };
+      if (pages > 1) {
+        processed.frames = pages;
+      }
+      return processed;
     } catch (error) {
       if (error instanceof ImageProcessingFailedError) {
         throw error;
@@ -71,9 +213,214 @@ export class ImageProcessorService {
     }
   }
 
+  // Decodes a single frame, converted to sRGB; `page` selects the frame of an animated image
+  async decodeImage(buffer: Buffer, limitInputPixels?: number, page = 0, autoOrient = true): Promise<DecodedImage> {
+    try {
+      let sharpInstance = sharp(buffer, { limitInputPixels, page });
+      if (autoOrient) {
+        sharpInstance = sharpInstance.rotate();
+      }
+      const { data, info } = await sharpInstance.raw().toBuffer({ resolveWithObject: true });
+      return {
+        data,
+        info: { width: info.width, height: info.height, channels: info.channels }
+      };
+    } catch (error) {
+      throw new ImageProcessingFailedError(
+        `Failed to decode image: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  // Builds the enabled placeholder kinds from a single frame
+  async createPlaceholders(
+    input: Buffer | DecodedImage,
+    options: PlaceholderOptions,
+    limitInputPixels?: number
+  ): Promise<ImagePlaceholders> {
+    try {
+      const image = Buffer.isBuffer(input)
+        ? sharp(input, { limitInputPixels })
+        : sharp(input.data, { raw: input.info });
+      const placeholders: ImagePlaceholders = {};
+
+      if (options.lqip) {
+        const thumbnail = await image.clone()
+          .resize(options.lqipWidth, options.lqipWidth, { fit: 'inside' })
+          .webp({ quality: 50 })
+          .toBuffer();
+        placeholders.lqip = `data:image/webp;base64,${thumbnail.toString('base64')}`;
+      }
+
+      if (options.blurhash) {
+        // A few dozen pixels carry all the detail a BlurHash can hold
+        const { data, info } = await image.clone()
+          .resize(32, 32, { fit: 'inside' })
+          .flatten({ background: '#ffffff' })
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        const { x, y } = options.blurhashComponents;
+        placeholders.blurhash = BlurHash.encode(data, info.width, info.height, info.channels, x, y);
+      }
+
+      if (options.svg) {
+        placeholders.svg = await this.createSvgPlaceholder(image.clone());
+      }
+
+      if (options.dominantColor) {
+        const { dominant } = await image.clone().stats();
+        placeholders.dominantColor = this.toHex(dominant.r, dominant.g, dominant.b);
+      }
+
+      return placeholders;
+    } catch (error) {
+      throw new ImageProcessingFailedError(
+        `Failed to create placeholders: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  // Median cut over a downscaled copy; pixels less than half opaque are ignored
+  async extractPalette(
+    input: Buffer | DecodedImage,
+    options: PaletteOptions = {},
+    limitInputPixels?: number
+  ): Promise<ImagePalette> {
+    const { count = 5 } = options;
+    if (!Number.isInteger(count) || count < 1 || count > 16) {
+      throw new InvalidConfigurationError(`Palette size must be an integer between 1 and 16, got ${count}`);
+    }
+
+    try {
+      const image = Buffer.isBuffer(input)
+        ? sharp(input, { limitInputPixels })
+        : sharp(input.data, { raw: input.info });
+      const { data, info } = await image
+        // Nearest neighbour keeps real colors; smoothing would invent blends at edges
+        .resize(64, 64, { fit: 'inside', kernel: 'nearest' })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const pixels: number[][] = [];
+      for (let offset = 0; offset < data.length; offset += info.channels) {
+        if (data[offset + 3] >= 128) {
+          pixels.push([data[offset], data[offset + 1], data[offset + 2]]);
+        }
+      }
+
+      const colors = this.medianCut(pixels, count)
+        .map(box => ({
+          hex: this.toHex(...[0, 1, 2].map(channel =>
+            Math.round(box.reduce((sum, pixel) => sum + pixel[channel], 0) / box.length)
+          ) as [number, number, number]),
+          share: box.length / pixels.length
+        }))
+        .sort((a, b) => b.share - a.share);
+
+      return { dominant: colors[0]?.hex, colors };
+    } catch (error) {
+      throw new ImageProcessingFailedError(
+        `Failed to extract palette: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  async rasterizeSvg(buffer: Buffer, density: number, limitInputPixels?: number): Promise<Buffer> {
+    try {
+      return await sharp(buffer, { density, limitInputPixels }).png().toBuffer();
+    } catch (error) {
+      throw new ImageProcessingFailedError(
+        `Failed to rasterize SVG: ${error.message}`,
+        error as Error
+      );
+    }
+  }
+
+  // A grid of at most 4x4 of the image's colors, blurred so the cells blend together
+  private async createSvgPlaceholder(image: sharp.Sharp): Promise<string> {
+    const { data, info } = await image
+      .resize(4, 4, { fit: 'inside' })
+      .flatten({ background: '#ffffff' })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const cells: string[] = [];
+    for (let y = 0; y < info.height; y++) {
+      for (let x = 0; x < info.width; x++) {
+        const offset = (y * info.width + x) * info.channels;
+        const fill = this.toHex(data[offset], data[offset + 1], data[offset + 2]);
+        cells.push(`<rect x="${x}" y="${y}" width="1" height="1" fill="${fill}"/>`);
+      }
+    }
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${info.width} ${info.height}" preserveAspectRatio="none">` +
+      '<filter id="b" x="0" y="0" width="100%" height="100%"><feGaussianBlur stdDeviation="0.4" edgeMode="duplicate"/></filter>' +
+      `<g filter="url(#b)">${cells.join('')}</g></svg>`;
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+  }
+
+  // Splits the box with the widest channel range at its median until there are `count`
+  // boxes or every box holds a single color
+  private medianCut(pixels: number[][], count: number): number[][][] {
+    const boxes = pixels.length > 0 ? [pixels] : [];
+    const range = (box: number[][], channel: number) =>
+      Math.max(...box.map(pixel => pixel[channel])) - Math.min(...box.map(pixel => pixel[channel]));
+
+    while (boxes.length < count) {
+      let widest = { index: -1, channel: 0, range: 0 };
+      boxes.forEach((box, index) => {
+        for (let channel = 0; channel < 3; channel++) {
+          const boxRange = range(box, channel);
+          if (boxRange > widest.range) {
+            widest = { index, channel, range: boxRange };
+          }
+        }
+      });
+      if (widest.index === -1) {
+        break;
+      }
+
+      // Keep pixels with the median value together, so one color does not end up in two boxes
+      const { index, channel } = widest;
+      const box = [...boxes[index]].sort((a, b) => a[channel] - b[channel]);
+      const median = box[Math.ceil(box.length / 2) - 1][channel];
+      let split = box.findIndex(pixel => pixel[channel] > median);
+      if (split === -1) {
+        split = box.findIndex(pixel => pixel[channel] === median);
+      }
+      boxes.splice(index, 1, box.slice(0, split), box.slice(split));
+    }
+    return boxes;
+  }
+
+  private toHex(r: number, g: number, b: number): string {
+    return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  // Drops undefined fields; undefined when none are left
+  private compact<T extends object>(fields: T): T | undefined {
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) as T : undefined;
+  }
+
+  // Orientations 5-8 swap width and height
+  private async getFrameSize(buffer: Buffer, autoOrient: boolean): Promise<{ width: number; height: number }> {
+    const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+    const height = metadata.pageHeight || metadata.height;
+    return autoOrient && metadata.orientation >= 5
+      ? { width: height, height: metadata.width }
+      : { width: metadata.width, height };
+  }
+
+  // Header-only reads skip sharp's pixel limit so callers can apply their own limits
   async getImageMetadata(buffer: Buffer): Promise<sharp.Metadata> {
     try {
-      return await sharp(buffer).metadata();
+      return await sharp(buffer, { limitInputPixels: false }).metadata();
     } catch (error) {
       throw new ImageProcessingFailedError(
         `Failed to get image metadata: ${error.message}`,
@@ -82,9 +429,70 @@ export class ImageProcessorService {
     }
   }
 
+  // Typed, normalized form of getImageMetadata with EXIF, IPTC and XMP decoded
+  async getImageInfo(buffer: Buffer, options: ImageInfoOptions = {}): Promise<ImageInfo> {
+    const metadata = await this.getImageMetadata(buffer);
+    const exif = ExifUtils.parse(metadata.exif);
+    const iptc = IptcUtils.parse(metadata.iptc);
+    const { TAGS } = ExifUtils;
+
+    const height = metadata.pageHeight || metadata.height;
+    const orientation = metadata.orientation || 1;
+    const info: ImageInfo = {
+      format: metadata.format,
+      width: orientation >= 5 ? height : metadata.width,
+      height: orientation >= 5 ? metadata.width : height,
+      orientation,
+      bytes: buffer.length,
+      space: metadata.space,
+      channels: metadata.channels,
+      hasAlpha: !!metadata.hasAlpha,
+      hasProfile: !!metadata.hasProfile
+    };
+
+    if (metadata.pages > 1) {
+      const delays = metadata.delay || [];
+      info.animation = {
+        frames: metadata.pages,
+        loop: metadata.loop ?? 0,
+        delays,
+        duration: delays.reduce((total, delay) => total + delay, 0)
+      };
+    }
+
+    const camera = this.compact<ImageDeviceInfo>({
+      make: ExifUtils.getString(exif.ifd0, TAGS.MAKE),
+      model: ExifUtils.getString(exif.ifd0, TAGS.MODEL),
+      serialNumber: options.redact ? undefined : ExifUtils.getString(exif.exif, TAGS.BODY_SERIAL_NUMBER)
+    });
+    const lens = this.compact<ImageDeviceInfo>({
+      make: ExifUtils.getString(exif.exif, TAGS.LENS_MAKE),
+      model: ExifUtils.getString(exif.exif, TAGS.LENS_MODEL),
+      serialNumber: options.redact ? undefined : ExifUtils.getString(exif.exif, TAGS.LENS_SERIAL_NUMBER)
+    });
+    const exposure = this.compact<ImageExposureInfo>({
+      time: ExifUtils.getNumber(exif.exif, TAGS.EXPOSURE_TIME),
+      fNumber: ExifUtils.getNumber(exif.exif, TAGS.F_NUMBER),
+      iso: ExifUtils.getNumber(exif.exif, TAGS.ISO),
+      focalLength: ExifUtils.getNumber(exif.exif, TAGS.FOCAL_LENGTH)
+    });
+    const optional: Partial<ImageInfo> = {
+      camera,
+      lens,
+      exposure,
+      takenAt: ExifUtils.getDateTaken(exif),
+      location: options.redact ? undefined : ExifUtils.getLocation(exif),
+      title: XmpUtils.getText(metadata.xmp, 'dc:title') || iptc[IptcUtils.DATASETS.OBJECT_NAME],
+      copyright: XmpUtils.getText(metadata.xmp, 'dc:rights')
+        || iptc[IptcUtils.DATASETS.COPYRIGHT_NOTICE]
+        || ExifUtils.getString(exif.ifd0, TAGS.COPYRIGHT)
+    };
+    return { ...info, ...this.compact(optional) };
+  }
+
   async validateImage(buffer: Buffer): Promise<boolean> {
     try {
-      await sharp(buffer).metadata();
+      await sharp(buffer, { limitInputPixels: false }).metadata();
       return true;
     } catch {
       return false;
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateNamingStrategy } from './template-naming.strategy';
+import { ImageValidationError, InvalidConfigurationError } from '../errors/image-processing.errors';
+
+const ID = '3f1c2a9e-7b4d-4e0a-9c51-2d8e6f0b1a77';
+
+describe('TemplateNamingStrategy', () => {
+  describe('default templates', () => {
+    const strategy = new TemplateNamingStrategy();
+
+    it('should group the original and its variants under the ID', () => {
+      const originalPath = strategy.generateOriginalPath({ id: ID, originalName: 'Photo.JPG' });
+      const variantPath = strategy.generateVariantPath({
+        id: ID,
+        originalName: 'Photo.JPG',
+        originalPath,
+        width: 320,
+        dpr: 2,
+        format: 'webp'
+      });
+
+      expect(originalPath).toBe(`/uploads/${ID}/original.jpg`);
+      expect(variantPath).toBe(`/uploads/${ID}/320w@2x.webp`);
+    });
+
+    it('should give sizes that share a width but crop differently their own paths', () => {
+      const context = { id: ID, originalName: 'photo.jpg', originalPath: `/uploads/${ID}/original.jpg`, dpr: 1, format: 'webp' };
+
+      expect(strategy.generateVariantPath({ ...context, width: 256, height: 256, fit: 'cover' }))
+        .toBe(`/uploads/${ID}/256x256-cover@1x.webp`);
+      expect(strategy.generateVariantPath({ ...context, width: 256, height: 256, fit: 'cover', position: 'attention' }))
+        .toBe(`/uploads/${ID}/256x256-cover-attention@1x.webp`);
+      expect(strategy.generateVariantPath({ ...context, width: 256, height: 144 }))
+        .toBe(`/uploads/${ID}/256x144@1x.webp`);
+    });
+
+    it('should derive the variant prefix from the original path', () => {
+      expect(strategy.getVariantPrefix(`/uploads/${ID}/original.jpg`)).toBe(`/uploads/${ID}/`);
+    });
+
+    it('should recognise variants of the same original only', () => {
+      const originalPath = `/uploads/${ID}/original.jpg`;
+
+      expect(strategy.isVariantPath(originalPath, `/uploads/${ID}/320w@2x.webp`)).toBe(true);
+      expect(strategy.isVariantPath(originalPath, `https://cdn.example.com/uploads/${ID}/320w@2x.webp`)).toBe(true);
+      expect(strategy.isVariantPath(originalPath, originalPath)).toBe(false);
+      expect(strategy.isVariantPath(originalPath, '/uploads/other-id/320w@2x.webp')).toBe(false);
+    });
+
+    it('should reject paths that do not match the original template', () => {
+      expect(() => strategy.getVariantPrefix('/elsewhere/photo.jpg')).toThrow(ImageValidationError);
+    });
+  });
+
+  describe('custom templates', () => {
+    it('should render all placeholders', () => {
+      const strategy = new TemplateNamingStrategy({
+        basePath: '/media/',
+        originalTemplate: '{id}/{name}.{ext}',
+        variantTemplate: '{id}/{name}-{width}x{height}@{dpr}x.{format}'
+      });
+      const originalPath = strategy.generateOriginalPath({ id: ID, originalName: 'my holiday photo.png' });
+
+      expect(originalPath).toBe(`/media/${ID}/my-holiday-photo.png`);
+      expect(strategy.generateVariantPath({
+        id: ID,
+        originalName: 'my holiday photo.png',
+        originalPath,
+        width: 640,
+        height: 480,
+        dpr: 1,
+        format: 'avif'
+      })).toBe(`/media/${ID}/my-holiday-photo-640x480@1x.avif`);
+      expect(strategy.generateVariantPath({
+        id: ID,
+        originalName: 'my holiday photo.png',
+        originalPath,
+        width: 640,
+        dpr: 1,
+        format: 'avif'
+      })).toBe(`/media/${ID}/my-holiday-photo-640xauto@1x.avif`);
+    });
+
+    it('should keep variants in a separate directory from originals', () => {
+      const strategy = new TemplateNamingStrategy({
+        originalTemplate: 'originals/{id}.{ext}',
+        variantTemplate: 'variants/{id}/{width}w@{dpr}x.{format}'
+      });
+      const originalPath = `/uploads/originals/${ID}.jpg`;
+
+      expect(strategy.getVariantPrefix(originalPath)).toBe(`/uploads/variants/${ID}/`);
+      expect(strategy.isVariantPath(originalPath, `/uploads/variants/${ID}/640w@1x.webp`)).toBe(true);
+    });
+
+    it('should reject unknown placeholders', () => {
+      expect(() => new TemplateNamingStrategy({ variantTemplate: '{id}/{width}w@{dpr}x-{quality}.{format}' }))
+        .toThrow(InvalidConfigurationError);
+    });
+
+    it('should require the placeholders that keep variant paths unique', () => {
+      expect(() => new TemplateNamingStrategy({ variantTemplate: '{name}_{width}w@{dpr}x.{format}' }))
+        .toThrow('must contain {id}');
+      expect(() => new TemplateNamingStrategy({ variantTemplate: '{id}/{height}@{dpr}x.{format}' }))
+        .toThrow('must contain {size} or {width}');
+      expect(() => new TemplateNamingStrategy({ originalTemplate: '{name}.{ext}' }))
+        .toThrow(InvalidConfigurationError);
+    });
+  });
+});
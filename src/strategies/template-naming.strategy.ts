@@ -0,0 +1,150 @@
+import {
+  NamingStrategy,
+  OriginalNamingContext,
+  VariantNamingContext,
+} from '../interfaces/naming-strategy.interface';
+import { FileNamingUtils } from '../utils/file-naming.utils';
+import { ImageSizeUtils } from '../utils/image-size.utils';
+import { ImageValidationError, InvalidConfigurationError } from '../errors/image-processing.errors';
+
+export interface TemplateNamingStrategyOptions {
+  basePath?: string;
+  originalTemplate?: string;
+  variantTemplate?: string;
+}
+
+type TemplateValues = { [placeholder: string]: string | number | undefined };
+
+const ORIGINAL_PLACEHOLDERS = ['id', 'name', 'ext'];
+const VARIANT_PLACEHOLDERS = [...ORIGINAL_PLACEHOLDERS, 'size', 'width', 'height', 'dpr', 'format'];
+const REQUIRED_VARIANT_PLACEHOLDERS = ['id', 'dpr', 'format'];
+const SIZE_PLACEHOLDERS = ['size', 'width'];
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+// Placeholders: {id}, {name}, {ext}, {size}, {width}, {height}, {dpr}, {format}.
+// {size} is ImageSizeUtils.getKey: '320w' for width-only sizes, '256x256-cover' for crops,
+// so sizes that share a width do not overwrite each other.
+// The defaults group every variant under the original's ID:
+// /uploads/<id>/original.jpg, /uploads/<id>/320w@2x.webp, /uploads/<id>/256x256-cover@1x.webp
+export class TemplateNamingStrategy implements NamingStrategy {
+  static readonly DEFAULT_BASE_PATH = '/uploads';
+  static readonly DEFAULT_ORIGINAL_TEMPLATE = '{id}/original.{ext}';
+  static readonly DEFAULT_VARIANT_TEMPLATE = '{id}/{size}@{dpr}x.{format}';
+
+  private readonly basePath: string;
+  private readonly originalTemplate: string;
+  private readonly variantTemplate: string;
+
+  constructor(options: TemplateNamingStrategyOptions = {}) {
+    this.basePath = (options.basePath ?? TemplateNamingStrategy.DEFAULT_BASE_PATH).replace(/\/+$/, '');
+    this.originalTemplate = options.originalTemplate || TemplateNamingStrategy.DEFAULT_ORIGINAL_TEMPLATE;
+    this.variantTemplate = options.variantTemplate || TemplateNamingStrategy.DEFAULT_VARIANT_TEMPLATE;
+
+    this.validateTemplate('originalTemplate', this.originalTemplate, ORIGINAL_PLACEHOLDERS, ['id']);
+    this.validateTemplate(
+      'variantTemplate',
+      this.variantTemplate,
+      VARIANT_PLACEHOLDERS,
+      REQUIRED_VARIANT_PLACEHOLDERS,
+      SIZE_PLACEHOLDERS
+    );
+  }
+
+  generateOriginalPath(context: OriginalNamingContext): string {
+    return this.render(this.originalTemplate, this.originalValues(context));
+  }
+
+  generateVariantPath(context: VariantNamingContext): string {
+    return this.render(this.variantTemplate, {
+      ...this.originalValues(context),
+      size: ImageSizeUtils.getKey(context),
+      width: context.width,
+      height: context.height ?? 'auto',
+      dpr: context.dpr,
+      format: context.format
+    });
+  }
+
+  getVariantPrefix(originalPath: string): string {
+    const values = this.parseOriginalPath(originalPath);
+    const firstUnknown = [...this.variantTemplate.matchAll(PLACEHOLDER_PATTERN)]
+      .find(match => !(match[1] in values));
+    return this.render(this.variantTemplate.substring(0, firstUnknown?.index), values);
+  }
+
+  isVariantPath(originalPath: string, path: string): boolean {
+    const values = this.parseOriginalPath(originalPath);
+    const pattern = this.toPattern(this.variantTemplate, placeholder =>
+      placeholder in values ? this.escape(String(values[placeholder])) : '[^/]+'
+    );
+    return pattern.test(path);
+  }
+
+  private originalValues(context: OriginalNamingContext): TemplateValues {
+    return {
+      id: context.id,
+      name: this.sanitize(FileNamingUtils.getBaseName(context.originalName)),
+      ext: FileNamingUtils.getFileExtension(context.originalName).replace(/^\./, '').toLowerCase()
+    };
+  }
+
+  private parseOriginalPath(originalPath: string): TemplateValues {
+    const pattern = this.toPattern(this.originalTemplate, placeholder =>
+      placeholder === 'ext' ? `(?<${placeholder}>[^/.]*)` : `(?<${placeholder}>[^/]+)`
+    );
+    const match = originalPath.match(pattern);
+    if (!match) {
+      throw new ImageValidationError(`Path ${originalPath} does not match the original naming template`);
+    }
+    return { ...match.groups };
+  }
+
+  // Anchored at the end only, so paths returned as public URLs still match
+  private toPattern(template: string, placeholderPattern: (placeholder: string) => string): RegExp {
+    let pattern = '';
+    let lastIndex = 0;
+    for (const match of `${this.basePath}/${template}`.matchAll(PLACEHOLDER_PATTERN)) {
+      pattern += this.escape(`${this.basePath}/${template}`.substring(lastIndex, match.index));
+      pattern += placeholderPattern(match[1]);
+      lastIndex = match.index + match[0].length;
+    }
+    pattern += this.escape(`${this.basePath}/${template}`.substring(lastIndex));
+    return new RegExp(`${pattern}$`);
+  }
+
+  private render(template: string, values: TemplateValues): string {
+    const path = template.replace(PLACEHOLDER_PATTERN, (_match, placeholder: string) => String(values[placeholder]));
+    return `${this.basePath}/${path}`;
+  }
+
+  private validateTemplate(
+    option: string,
+    template: string,
+    allowed: string[],
+    required: string[],
+    anyOf: string[] = []
+  ): void {
+    const placeholders = [...template.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+
+    const unknown = placeholders.filter(placeholder => !allowed.includes(placeholder));
+    if (unknown.length > 0) {
+      throw new InvalidConfigurationError(`Unknown placeholder {${unknown[0]}} in ${option} "${template}"`);
+    }
+
+    const missing = required.filter(placeholder => !placeholders.includes(placeholder));
+    if (missing.length > 0) {
+      throw new InvalidConfigurationError(`${option} "${template}" must contain {${missing.join('}, {')}}`);
+    }
+    if (anyOf.length > 0 && !anyOf.some(placeholder => placeholders.includes(placeholder))) {
+      throw new InvalidConfigurationError(`${option} "${template}" must contain {${anyOf.join('} or {')}}`);
+    }
+  }
+
+  private sanitize(value: string): string {
+    return value.replace(/[^a-zA-Z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'image';
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
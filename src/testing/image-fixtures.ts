@@ -0,0 +1,471 @@
+import sharp from 'sharp';
+import { deflateSync } from 'zlib';
+
+export type FixtureFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface SolidColorFixtureOptions {
+  width?: number;
+  height?: number;
+  color?: string;
+  format?: FixtureFormat;
+}
+
+export interface AlphaFixtureOptions {
+  width?: number;
+  height?: number;
+  color?: string;
+  alpha?: number;
+  format?: 'png' | 'webp' | 'avif';
+}
+
+export interface ExifRotatedFixtureOptions {
+  orientation: number;
+  width?: number;
+  height?: number;
+}
+
+export interface OrientedFixtureOptions {
+  orientation: number;
+  // Size as displayed, after the orientation is applied
+  width?: number;
+  height?: number;
+}
+
+export interface ExifFixtureOptions {
+  copyright?: string;
+  // Decimal degrees; both are needed to write a GPS block
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface CameraPhotoFixtureOptions {
+  orientation?: number;
+}
+
+export interface ColorSpaceFixtureOptions {
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+export interface PixelBombFixtureOptions {
+  width?: number;
+  height?: number;
+}
+
+export interface SvgFixtureOptions {
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+export type MaliciousSvgKind =
+  | 'script'
+  | 'eventHandler'
+  | 'javascriptHref'
+  | 'externalImage'
+  | 'foreignObject'
+  | 'entityExpansion'
+  | 'externalEntity'
+  | 'xmlStylesheet'
+  | 'cssImport'
+  | 'doctypeBacktracking';
+
+export interface AnimatedFixtureOptions {
+  frames?: number;
+  width?: number;
+  height?: number;
+  delay?: number;
+  format?: 'gif' | 'webp';
+}
+
+const FRAME_COLORS: Array<[number, number, number]> = [
+  [255, 0, 0],
+  [0, 255, 0],
+  [0, 0, 255],
+  [255, 255, 0],
+  [0, 255, 255],
+  [255, 0, 255],
+  [255, 255, 255],
+  [0, 0, 0]
+];
+
+export class ImageFixtures {
+  static async solidColor(options: SolidColorFixtureOptions = {}): Promise<Buffer> {
+    const { width = 64, height = 48, color = '#ff0000', format = 'png' } = options;
+
+    return sharp({
+      create: { width, height, channels: 3, background: color }
+    })
+      .toFormat(format)
+      .toBuffer();
+  }
+
+  static async withAlpha(options: AlphaFixtureOptions = {}): Promise<Buffer> {
+    const { width = 64, height = 48, color = '#0000ff', alpha = 0.5, format = 'png' } = options;
+    const { r, g, b } = await this.parseColor(color);
+
+    return sharp({
+      create: { width, height, channels: 4, background: { r, g, b, alpha } }
+    })
+      .toFormat(format)
+      .toBuffer();
+  }
+
+  // Left half red, right half blue, so the applied orientation is observable
+  static async exifRotated(options: ExifRotatedFixtureOptions): Promise<Buffer> {
+    const { orientation, width = 64, height = 32 } = options;
+    if (!Number.isInteger(orientation) || orientation < 1 || orientation > 8) {
+      throw new RangeError(`EXIF orientation must be an integer from 1 to 8, got ${orientation}`);
+    }
+
+    const rightHalf = await sharp({
+      create: { width: Math.ceil(width / 2), height, channels: 3, background: '#0000ff' }
+    })
+      .png()
+      .toBuffer();
+
+    return sharp({
+      create: { width, height, channels: 3, background: '#ff0000' }
+    })
+      .composite([{ input: rightHalf, left: Math.floor(width / 2), top: 0 }])
+      .jpeg({ quality: 95 })
+      .withMetadata({ orientation })
+      .toBuffer();
+  }
+
+  // Upright quadrants: red top-left, green top-right, blue bottom-left, white
+  // bottom-right. The pixels are stored so that applying `orientation` restores that
+  // image, like a camera would save them; every orientation displays the same picture.
+  static async oriented(options: OrientedFixtureOptions): Promise<Buffer> {
+    const { orientation, width = 64, height = 32 } = options;
+    if (!Number.isInteger(orientation) || orientation < 1 || orientation > 8) {
+      throw new RangeError(`EXIF orientation must be an integer from 1 to 8, got ${orientation}`);
+    }
+
+    const quadrant = (color: string, left: number, top: number) => sharp({
+      create: { width: Math.ceil(width / 2), height: Math.ceil(height / 2), channels: 3, background: color }
+    })
+      .png()
+      .toBuffer()
+      .then(input => ({ input, left, top }));
+    const upright = await sharp({
+      create: { width, height, channels: 3, background: '#ff0000' }
+    })
+      .composite(await Promise.all([
+        quadrant('#00ff00', Math.floor(width / 2), 0),
+        quadrant('#0000ff', 0, Math.floor(height / 2)),
+        quadrant('#ffffff', Math.floor(width / 2), Math.floor(height / 2))
+      ]))
+      .png()
+      .toBuffer();
+
+    // The inverse of each orientation's transform: flips for 2 and 4, rotations for
+    // 3, 6 and 8, and a rotation followed by a flip for the transposes 5 and 7
+    const steps: Record<number, Array<(image: sharp.Sharp) => sharp.Sharp>> = {
+      1: [],
+      2: [image => image.flop()],
+      3: [image => image.rotate(180)],
+      4: [image => image.flip()],
+      5: [image => image.rotate(90), image => image.flop()],
+      6: [image => image.rotate(270)],
+      7: [image => image.rotate(270), image => image.flop()],
+      8: [image => image.rotate(90)]
+    };
+    let stored = upright;
+    for (const step of steps[orientation]) {
+      stored = await step(sharp(stored)).png().toBuffer();
+    }
+
+    return sharp(stored)
+      .jpeg({ quality: 95 })
+      .withMetadata({ orientation })
+      .toBuffer();
+  }
+
+  // A JPEG with EXIF copyright and GPS tags, for checking what reaches the variants
+  static async withExif(options: ExifFixtureOptions = {}): Promise<Buffer> {
+    const { copyright, latitude, longitude } = options;
+    const IFD0: Record<string, string> = {};
+    if (copyright) {
+      IFD0.Copyright = copyright;
+    }
+    const IFD3: Record<string, string> = {};
+    if (latitude !== undefined && longitude !== undefined) {
+      IFD3.GPSLatitudeRef = latitude < 0 ? 'S' : 'N';
+      IFD3.GPSLatitude = this.toExifDegrees(latitude);
+      IFD3.GPSLongitudeRef = longitude < 0 ? 'W' : 'E';
+      IFD3.GPSLongitude = this.toExifDegrees(longitude);
+    }
+
+    return sharp({
+      create: { width: 64, height: 48, channels: 3, background: '#808080' }
+    })
+      .jpeg()
+      .withMetadata({ exif: { IFD0, IFD3 } })
+      .toBuffer();
+  }
+
+  // A 64x48 JPEG with the metadata a camera and a photo editor would leave: EXIF
+  // camera, lens, exposure, date and serial numbers, GPS near Sydney, an XMP title
+  // and rights, and an IPTC object name and copyright notice
+  static async cameraPhoto(options: CameraPhotoFixtureOptions = {}): Promise<Buffer> {
+    const { orientation = 1 } = options;
+    const jpeg = await sharp({
+      create: { width: 64, height: 48, channels: 3, background: '#336699' }
+    })
+      .jpeg()
+      .withMetadata({
+        orientation,
+        exif: {
+          IFD0: { Make: 'Canon', Model: 'Canon EOS R5', Copyright: 'Jane Doe' },
+          IFD2: {
+            ExposureTime: '1/250',
+            FNumber: '28/10',
+            ISOSpeedRatings: '400',
+            DateTimeOriginal: '2024:05:17 18:32:10',
+            OffsetTimeOriginal: '+10:00',
+            FocalLength: '50/1',
+            BodySerialNumber: '012345678901',
+            LensMake: 'Canon',
+            LensModel: 'RF50mm F1.8 STM',
+            LensSerialNumber: '9876543'
+          },
+          IFD3: {
+            GPSLatitudeRef: 'S',
+            GPSLatitude: '33/1 51/1 3540/100',
+            GPSLongitudeRef: 'E',
+            GPSLongitude: '151/1 12/1 3000/100',
+            GPSAltitudeRef: '0',
+            GPSAltitude: '58/1'
+          }
+        }
+      })
+      .toBuffer();
+
+    const xmp = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+      '<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+      '<dc:title><rdf:Alt><rdf:li xml:lang="x-default">Harbour at dusk</rdf:li></rdf:Alt></dc:title>' +
+      '<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">\u00a9 2024 Jane Doe</rdf:li></rdf:Alt></dc:rights>' +
+      '</rdf:Description></rdf:RDF></x:xmpmeta>';
+    const iim = Buffer.concat([
+      this.iimDataset(1, 90, Buffer.from([0x1b, 0x25, 0x47])),
+      this.iimDataset(2, 5, Buffer.from('Harbour', 'utf8')),
+      this.iimDataset(2, 116, Buffer.from('\u00a9 2024 Jane Doe', 'utf8'))
+    ]);
+    const resource = Buffer.alloc(12);
+    resource.write('8BIM', 0, 'latin1');
+    resource.writeUInt16BE(0x0404, 4);
+    resource.writeUInt32BE(iim.length, 8);
+
+    // XMP goes in its own APP1 segment and IPTC in APP13, right after the SOI marker
+    return Buffer.concat([
+      jpeg.subarray(0, 2),
+      this.jpegSegment(0xe1, Buffer.concat([Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1'), Buffer.from(xmp, 'utf8')])),
+      this.jpegSegment(0xed, Buffer.concat([Buffer.from('Photoshop 3.0\0', 'latin1'), resource, iim, Buffer.alloc(iim.length % 2)])),
+      jpeg.subarray(2)
+    ]);
+  }
+
+  static async cmyk(options: ColorSpaceFixtureOptions = {}): Promise<Buffer> {
+    const { width = 64, height = 48, color = '#ff0000' } = options;
+
+    return sharp({
+      create: { width, height, channels: 3, background: color }
+    })
+      .toColourspace('cmyk')
+      .jpeg({ quality: 95 })
+      .toBuffer();
+  }
+
+  // A JPEG tagged with the Display P3 profile; its pixel values mean more saturated
+  // colors than the same values in sRGB
+  static async displayP3(options: ColorSpaceFixtureOptions = {}): Promise<Buffer> {
+    const { width = 64, height = 48, color = '#00ff00' } = options;
+
+    return sharp({
+      create: { width, height, channels: 3, background: color }
+    })
+      .jpeg({ quality: 95 })
+      .withMetadata({ icc: 'p3' })
+      .toBuffer();
+  }
+
+  static async animated(options: AnimatedFixtureOptions = {}): Promise<Buffer> {
+    const { frames = 3, width = 32, height = 32, delay = 100, format = 'gif' } = options;
+    if (frames < 1 || frames > FRAME_COLORS.length) {
+      throw new RangeError(`Animated fixture supports 1 to ${FRAME_COLORS.length} frames, got ${frames}`);
+    }
+
+    const gif = this.encodeSolidFrameGif(width, height, frames, delay);
+    if (format === 'gif') {
+      return gif;
+    }
+
+    return sharp(gif, { animated: true })
+      .webp({ lossless: true, delay: new Array(frames).fill(delay), loop: 0 })
+      .toBuffer();
+  }
+
+  static svg(options: SvgFixtureOptions = {}): Buffer {
+    const { width = 64, height = 48, color = '#ff0000' } = options;
+
+    return Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="${color}"/></svg>`
+    );
+  }
+
+  // Each SVG renders as a plain image but carries one attack that must not survive upload
+  static maliciousSvg(kind: MaliciousSvgKind): Buffer {
+    const open = '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="64" height="48">';
+    const rect = '<rect width="64" height="48" fill="#ff0000"/>';
+    const payloads: Record<MaliciousSvgKind, string> = {
+      script: `${open}${rect}<script type="text/javascript">alert(document.cookie)</script></svg>`,
+      eventHandler: `${open}<rect width="64" height="48" fill="#ff0000" onload="alert(1)" onclick='alert(2)'/></svg>`,
+      javascriptHref: `${open}<a xlink:href="&#106;avascript:alert(1)">${rect}</a></svg>`,
+      externalImage: `${open}${rect}<image href="https://attacker.example/track.png" width="1" height="1"/></svg>`,
+      foreignObject: `${open}${rect}<foreignObject width="64" height="48"><iframe xmlns="http://www.w3.org/1999/xhtml" src="https://attacker.example"></iframe></foreignObject></svg>`,
+      entityExpansion:
+        '<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY a "lol"><!ENTITY b "&a;&a;&a;&a;&a;&a;&a;&a;&a;&a;">' +
+        '<!ENTITY c "&b;&b;&b;&b;&b;&b;&b;&b;&b;&b;"><!ENTITY d "&c;&c;&c;&c;&c;&c;&c;&c;&c;&c;">]>' +
+        `${open}${rect}<text y="20">&d;</text></svg>`,
+      externalEntity:
+        '<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>' +
+        `${open}${rect}<text y="20">&xxe;</text></svg>`,
+      xmlStylesheet:
+        '<?xml version="1.0"?><?xml-stylesheet href="https://attacker.example/style.xsl" type="text/xsl"?>' +
+        `${open}${rect}</svg>`,
+      cssImport:
+        `${open}<style>@import url("https://attacker.example/a.css"); rect { fill: url(https://attacker.example/p.svg#p) }</style>` +
+        `${rect}</svg>`,
+      // Empty internal subsets that made a naive DTD pattern backtrack exponentially
+      doctypeBacktracking: `${open}${rect}<!DOCTYPE svg ${'[]'.repeat(40)}</svg>`
+    };
+
+    return Buffer.from(payloads[kind]);
+  }
+
+  // A PNG whose header declares width x height pixels but carries almost no data.
+  // Enough for header-based limit checks; decoding it fails or exhausts memory.
+  static pixelBomb(options: PixelBombFixtureOptions = {}): Buffer {
+    const { width = 50000, height = 50000 } = options;
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 0; // grayscale
+
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      this.pngChunk('IHDR', header),
+      this.pngChunk('IDAT', deflateSync(Buffer.alloc(width + 1))),
+      this.pngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  private static pngChunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(this.crc32(body));
+    return Buffer.concat([length, body, crc]);
+  }
+
+  // Degrees, minutes and seconds as EXIF rationals
+  private static toExifDegrees(value: number): string {
+    const absolute = Math.abs(value);
+    const degrees = Math.floor(absolute);
+    const minutes = Math.floor((absolute - degrees) * 60);
+    const seconds = Math.round(((absolute - degrees) * 60 - minutes) * 60 * 100);
+    return `${degrees}/1 ${minutes}/1 ${seconds}/100`;
+  }
+
+  private static jpegSegment(marker: number, payload: Buffer): Buffer {
+    const header = Buffer.from([0xff, marker, 0, 0]);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+  }
+
+  private static iimDataset(record: number, dataset: number, value: Buffer): Buffer {
+    const header = Buffer.from([0x1c, record, dataset, 0, 0]);
+    header.writeUInt16BE(value.length, 3);
+    return Buffer.concat([header, value]);
+  }
+
+  private static crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+      crc ^= byte;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+      }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static async parseColor(color: string): Promise<{ r: number; g: number; b: number }> {
+    const { data } = await sharp({
+      create: { width: 1, height: 1, channels: 3, background: color }
+    })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return { r: data[0], g: data[1], b: data[2] };
+  }
+
+  // sharp cannot assemble frames into an animation, so the GIF is encoded by hand.
+  // LZW codes are kept at 8 bits by emitting a clear code every 126 pixels, which
+  // keeps every code byte-aligned and the encoder trivial.
+  private static encodeSolidFrameGif(width: number, height: number, frames: number, delay: number): Buffer {
+    const minCodeSize = 7;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const bytes: number[] = [];
+    const pushWord = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+
+    bytes.push(...Buffer.from('GIF89a'));
+    pushWord(width);
+    pushWord(height);
+    bytes.push(0xf0 | (minCodeSize - 1), 0, 0);
+
+    for (let index = 0; index < clearCode; index++) {
+      bytes.push(...(FRAME_COLORS[index] || [0, 0, 0]));
+    }
+
+    bytes.push(0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0'), 0x03, 0x01, 0x00, 0x00, 0x00);
+
+    for (let frame = 0; frame < frames; frame++) {
+      bytes.push(0x21, 0xf9, 0x04, 0x04);
+      pushWord(Math.round(delay / 10));
+      bytes.push(0x00, 0x00);
+
+      bytes.push(0x2c);
+      pushWord(0);
+      pushWord(0);
+      pushWord(width);
+      pushWord(height);
+      bytes.push(0x00, minCodeSize);
+
+      const codes: number[] = [];
+      for (let pixel = 0; pixel < width * height; pixel++) {
+        if (pixel % 126 === 0) {
+          codes.push(clearCode);
+        }
+        codes.push(frame);
+      }
+      codes.push(endCode);
+
+      for (let offset = 0; offset < codes.length; offset += 255) {
+        const block = codes.slice(offset, offset + 255);
+        bytes.push(block.length, ...block);
+      }
+      bytes.push(0x00);
+    }
+
+    bytes.push(0x3b);
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { INestApplicationContext } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import sharp from 'sharp';
+import { ImageProcessorTestingModule } from './image-processor-testing.module';
+import { ImageFixtures } from './image-fixtures';
+import { ImagePipelineService, STORAGE_DRIVER } from '../services/image-pipeline.service';
+import { InMemoryStorageDriver } from '../drivers/in-memory.storage-driver';
+
+describe('ImageProcessorTestingModule', () => {
+  let app: INestApplicationContext;
+  let pipeline: ImagePipelineService;
+  let storage: InMemoryStorageDriver;
+
+  beforeAll(async () => {
+    app = await NestFactory.createApplicationContext(ImageProcessorTestingModule.forTest(), { logger: false });
+    pipeline = app.get(ImagePipelineService);
+    storage = app.get(InMemoryStorageDriver);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should wire the in-memory driver as STORAGE_DRIVER', () => {
+    expect(app.get(STORAGE_DRIVER)).toBe(storage);
+  });
+
+  it('should generate real variants into the in-memory driver', async () => {
+    storage.reset();
+    const buffer = await ImageFixtures.solidColor({ width: 100, height: 50 });
+
+    const result = await pipeline.processImage(buffer, 'photo.png', 'image/png');
+
+    expect(result.generated.webp).toHaveLength(4);
+    expect(storage.uploads).toHaveLength(5);
+    const [variant] = result.generated.webp;
+    const metadata = await sharp(storage.get(variant.path)).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(16);
+    expect(variant).toMatchObject({ width: 16, dpr: 1, pixelWidth: 16, pixelHeight: 8, quality: 50 });
+    expect(variant.bytes).toBe(storage.get(variant.path).length);
+    expect(result.originalMetadata).toEqual({ width: 100, height: 50, format: 'png', bytes: buffer.length, frames: 1 });
+  });
+
+  it('should wire presets', async () => {
+    const presetApp = await NestFactory.createApplicationContext(ImageProcessorTestingModule.forTest({
+      presets: { thumb: { sizes: [{ width: 8, height: 8, fit: 'cover' }], dpr: { ratios: [1] }, basePath: '/thumbs' } }
+    }), { logger: false });
+    const buffer = await ImageFixtures.solidColor({ width: 100, height: 50 });
+
+    const result = await presetApp.get(ImagePipelineService).processImage(buffer, 'photo.png', { preset: 'thumb' });
+
+    expect(result.original).toMatch(/^\/thumbs\//);
+    expect(result.generated.webp).toMatchObject([{ pixelWidth: 8, pixelHeight: 8 }]);
+    await presetApp.close();
+  });
+});
+
+describe('ImageFixtures', () => {
+  it('should generate solid color images in the requested format', async () => {
+    const buffer = await ImageFixtures.solidColor({ width: 20, height: 10, format: 'jpeg' });
+    const metadata = await sharp(buffer).metadata();
+
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.width).toBe(20);
+    expect(metadata.height).toBe(10);
+  });
+
+  it('should generate images with alpha', async () => {
+    const buffer = await ImageFixtures.withAlpha({ alpha: 0.25 });
+    const { data } = await sharp(buffer).raw().toBuffer({ resolveWithObject: true });
+
+    expect((await sharp(buffer).metadata()).hasAlpha).toBe(true);
+    expect(data[3]).toBe(64);
+  });
+
+  it('should generate EXIF-rotated images', async () => {
+    const buffer = await ImageFixtures.exifRotated({ orientation: 6 });
+
+    expect((await sharp(buffer).metadata()).orientation).toBe(6);
+    await expect(ImageFixtures.exifRotated({ orientation: 9 })).rejects.toThrow(RangeError);
+  });
+
+  it('should generate images that display upright in every orientation', async () => {
+    // Orientations 5-8 store the pixels rotated by a quarter turn
+    expect(await sharp(await ImageFixtures.oriented({ orientation: 2 })).metadata()).toMatchObject({ orientation: 2, width: 64, height: 32 });
+    expect(await sharp(await ImageFixtures.oriented({ orientation: 6 })).metadata()).toMatchObject({ orientation: 6, width: 32, height: 64 });
+    await expect(ImageFixtures.oriented({ orientation: 0 })).rejects.toThrow(RangeError);
+  });
+
+  it('should generate CMYK and Display P3 images', async () => {
+    expect((await sharp(await ImageFixtures.cmyk()).metadata()).space).toBe('cmyk');
+    expect((await sharp(await ImageFixtures.displayP3()).metadata()).hasProfile).toBe(true);
+  });
+
+  it('should generate SVGs that sharp can render', async () => {
+    const metadata = await sharp(ImageFixtures.svg({ width: 30, height: 20 })).metadata();
+
+    expect(metadata).toMatchObject({ format: 'svg', width: 30, height: 20 });
+  });
+
+  it('should generate a small PNG that declares huge dimensions', async () => {
+    const buffer = ImageFixtures.pixelBomb({ width: 30000, height: 20000 });
+    const metadata = await sharp(buffer, { limitInputPixels: false }).metadata();
+
+    expect(buffer.length).toBeLessThan(1024);
+    expect(metadata).toMatchObject({ format: 'png', width: 30000, height: 20000 });
+  });
+
+  it.each(['gif', 'webp'] as const)('should generate animated %s images', async format => {
+    const buffer = await ImageFixtures.animated({ format, frames: 4, width: 10, height: 8, delay: 50 });
+    const metadata = await sharp(buffer, { animated: true }).metadata();
+
+    expect(metadata.format).toBe(format);
+    expect(metadata.pages).toBe(4);
+    expect(metadata.pageHeight).toBe(8);
+    expect(metadata.delay).toEqual([50, 50, 50, 50]);
+  });
+});
@@ -0,0 +1,86 @@
+import { Module, DynamicModule } from '@nestjs/common';
+import {
+  ImagePipelineService,
+  STORAGE_DRIVER,
+  NAMING_STRATEGY,
+  PROCESSING_PRESETS,
+} from '../services/image-pipeline.service';
+import { ImageProcessorService } from '../services/image-processor.service';
+import { ImageProcessingConfig } from '../config/image-processing.config';
+import { InMemoryStorageDriver } from '../drivers/in-memory.storage-driver';
+import { NamingStrategy } from '../interfaces/naming-strategy.interface';
+import { ImageProcessingPresets } from '../interfaces/processing-preset.interface';
+import { TemplateNamingStrategy } from '../strategies/template-naming.strategy';
+
+export interface ImageProcessorTestingModuleOptions {
+  storageDriver?: InMemoryStorageDriver;
+  config?: ImageProcessingConfig;
+  namingStrategy?: NamingStrategy;
+  presets?: ImageProcessingPresets;
+}
+
+@Module({})
+export class ImageProcessorTestingModule {
+  static createTestConfig(): ImageProcessingConfig {
+    return new ImageProcessingConfig({
+      sizes: [{ width: 16 }, { width: 32 }],
+      formats: [{ type: 'webp', quality: 50 }],
+      dpr: { ratios: [1, 2] }
+    });
+  }
+
+  // Factory providers keep the wiring independent of emitted decorator metadata,
+  // which test transpilers such as esbuild and swc do not always produce.
+  static forTest(options: ImageProcessorTestingModuleOptions = {}): DynamicModule {
+    const storageDriver = options.storageDriver || new InMemoryStorageDriver();
+    const config = options.config || this.createTestConfig();
+
+    return {
+      module: ImageProcessorTestingModule,
+      providers: [
+        {
+          provide: InMemoryStorageDriver,
+          useValue: storageDriver,
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useExisting: InMemoryStorageDriver,
+        },
+        {
+          provide: ImageProcessingConfig,
+          useValue: config,
+        },
+        {
+          provide: NAMING_STRATEGY,
+          useValue: options.namingStrategy || new TemplateNamingStrategy(),
+        },
+        {
+          provide: PROCESSING_PRESETS,
+          useValue: options.presets || {},
+        },
+        {
+          provide: ImageProcessorService,
+          useFactory: () => new ImageProcessorService(),
+        },
+        {
+          provide: ImagePipelineService,
+          useFactory: (
+            imageProcessor: ImageProcessorService,
+            driver: InMemoryStorageDriver,
+            processingConfig: ImageProcessingConfig,
+            namingStrategy: NamingStrategy,
+            presets: ImageProcessingPresets
+          ) => new ImagePipelineService(imageProcessor, driver, processingConfig, namingStrategy, presets),
+          inject: [ImageProcessorService, STORAGE_DRIVER, ImageProcessingConfig, NAMING_STRATEGY, PROCESSING_PRESETS],
+        },
+      ],
+      exports: [
+        ImagePipelineService,
+        ImageProcessorService,
+        ImageProcessingConfig,
+        InMemoryStorageDriver,
+        STORAGE_DRIVER,
+      ],
+    };
+  }
+}
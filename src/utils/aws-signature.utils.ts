@@ -0,0 +1,96 @@
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash: string;
+}
+
+export class AwsSignatureUtils {
+  static readonly ALGORITHM = 'AWS4-HMAC-SHA256';
+  static readonly UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+  static sha256Hex(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  // Returns the request headers extended with the Signature Version 4 authorization headers
+  static signRequest(
+    request: SignableRequest,
+    credentials: AwsCredentials,
+    region: string,
+    service: string = 's3',
+    date: Date = new Date()
+  ): Record<string, string> {
+    const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.substring(0, 8);
+    const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(request.headers || {})) {
+      headers[name.toLowerCase()] = String(value).trim().replace(/\s+/g, ' ');
+    }
+    headers['host'] = request.url.host;
+    headers['x-amz-date'] = amzDate;
+    headers['x-amz-content-sha256'] = request.payloadHash;
+    if (credentials.sessionToken) {
+      headers['x-amz-security-token'] = credentials.sessionToken;
+    }
+
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+    const canonicalRequest = [
+      request.method.toUpperCase(),
+      this.canonicalPath(request.url.pathname),
+      this.canonicalQuery(request.url.searchParams),
+      headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      request.payloadHash
+    ].join('\n');
+
+    const stringToSign = [
+      this.ALGORITHM,
+      amzDate,
+      scope,
+      this.sha256Hex(canonicalRequest)
+    ].join('\n');
+
+    const signingKey = [dateStamp, region, service, 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      `AWS4${credentials.secretAccessKey}`
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    headers['authorization'] =
+      `${this.ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    return headers;
+  }
+
+  static encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
+  private static canonicalPath(pathname: string): string {
+    return pathname
+      .split('/')
+      .map(segment => this.encodeRfc3986(decodeURIComponent(segment)))
+      .join('/');
+  }
+
+  private static canonicalQuery(params: URLSearchParams): string {
+    return [...params.entries()]
+      .map(([key, value]) => [this.encodeRfc3986(key), this.encodeRfc3986(value)])
+      .sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB ? (valueA < valueB ? -1 : 1) : (keyA < keyB ? -1 : 1))
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { BlurHash } from './blurhash';
+
+describe('BlurHash', () => {
+  const solid = (width: number, height: number, rgb: number[]) =>
+    Buffer.from(Array.from({ length: width * height }, () => rgb).flat());
+
+  it('should encode the component count and the average color', () => {
+    expect(BlurHash.encode(solid(4, 4, [255, 0, 0]), 4, 4, 3, 1, 1)).toBe('00TI:j');
+  });
+
+  it('should produce two characters per AC component', () => {
+    const hash = BlurHash.encode(solid(8, 6, [0, 128, 255]), 8, 6, 3, 4, 3);
+
+    expect(hash).toHaveLength(4 + 2 * 4 * 3);
+    expect(hash[0]).toBe('L');
+  });
+
+  it('should ignore alpha', () => {
+    const rgba = Buffer.from(Array.from({ length: 16 }, () => [255, 0, 0, 0]).flat());
+
+    expect(BlurHash.encode(rgba, 4, 4, 4, 1, 1)).toBe('00TI:j');
+  });
+
+  it('should distinguish images with different structure', () => {
+    const gradient = Buffer.from(Array.from({ length: 16 }, (_, index) => [(index % 4) * 80, 0, 0]).flat());
+
+    expect(BlurHash.encode(gradient, 4, 4, 3, 4, 3)).not.toBe(BlurHash.encode(solid(4, 4, [120, 0, 0]), 4, 4, 3, 4, 3));
+  });
+});
@@ -0,0 +1,87 @@
+// Encoder for BlurHash (https://blurha.sh), a compact string that decodes to a blurred
+// preview. Follows the reference implementation, so any BlurHash decoder can read it.
+export class BlurHash {
+  private static readonly DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+  // `pixels` holds `channels` bytes per pixel, RGB first; alpha is ignored.
+  // More components keep more detail, 1 to 9 in each direction.
+  static encode(
+    pixels: Buffer,
+    width: number,
+    height: number,
+    channels: number,
+    componentsX: number,
+    componentsY: number
+  ): string {
+    const linear = new Float64Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < 3; c++) {
+        linear[i * 3 + c] = this.sRGBToLinear(pixels[i * channels + c]);
+      }
+    }
+
+    const factors: number[][] = [];
+    for (let y = 0; y < componentsY; y++) {
+      for (let x = 0; x < componentsX; x++) {
+        const normalisation = x === 0 && y === 0 ? 1 : 2;
+        const factor = [0, 0, 0];
+        for (let j = 0; j < height; j++) {
+          for (let i = 0; i < width; i++) {
+            const basis = normalisation * Math.cos(Math.PI * x * i / width) * Math.cos(Math.PI * y * j / height);
+            const offset = (j * width + i) * 3;
+            factor[0] += basis * linear[offset];
+            factor[1] += basis * linear[offset + 1];
+            factor[2] += basis * linear[offset + 2];
+          }
+        }
+        factors.push(factor.map(value => value / (width * height)));
+      }
+    }
+
+    const [dc, ...ac] = factors;
+    let hash = this.encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+    let maximumValue = 1;
+    if (ac.length > 0) {
+      const actualMaximum = Math.max(...ac.flat().map(Math.abs));
+      const quantisedMaximum = Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5)));
+      maximumValue = (quantisedMaximum + 1) / 166;
+      hash += this.encode83(quantisedMaximum, 1);
+    } else {
+      hash += this.encode83(0, 1);
+    }
+
+    hash += this.encode83((this.linearToSRGB(dc[0]) << 16) + (this.linearToSRGB(dc[1]) << 8) + this.linearToSRGB(dc[2]), 4);
+    for (const factor of ac) {
+      const [r, g, b] = factor.map(value =>
+        Math.max(0, Math.min(18, Math.floor(this.signPow(value / maximumValue, 0.5) * 9 + 9.5)))
+      );
+      hash += this.encode83(r * 19 * 19 + g * 19 + b, 2);
+    }
+    return hash;
+  }
+
+  private static encode83(value: number, length: number): string {
+    let result = '';
+    for (let i = 1; i <= length; i++) {
+      result += this.DIGITS[Math.floor(value / Math.pow(83, length - i)) % 83];
+    }
+    return result;
+  }
+
+  private static sRGBToLinear(value: number): number {
+    const v = value / 255;
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+  }
+
+  private static linearToSRGB(value: number): number {
+    const v = Math.max(0, Math.min(1, value));
+    return v <= 0.0031308
+      ? Math.trunc(v * 12.92 * 255 + 0.5)
+      : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+  }
+
+  private static signPow(value: number, exponent: number): number {
+    return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+  }
+}
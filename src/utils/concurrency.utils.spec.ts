@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyUtils } from './concurrency.utils';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ConcurrencyUtils', () => {
+  describe('map', () => {
+    it('should keep results in input order', async () => {
+      const results = await ConcurrencyUtils.map([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    it('should not run more tasks than the limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await ConcurrencyUtils.map(new Array(10).fill(0), 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    it('should handle empty input', async () => {
+      expect(await ConcurrencyUtils.map([], 4, async item => item)).toEqual([]);
+    });
+
+    it('should reject when a task fails', async () => {
+      await expect(ConcurrencyUtils.map([1, 2], 2, async item => {
+        if (item === 2) {
+          throw new Error('Task failed');
+        }
+        return item;
+      })).rejects.toThrow('Task failed');
+    });
+  });
+});
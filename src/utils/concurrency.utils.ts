@@ -0,0 +1,22 @@
+export class ConcurrencyUtils {
+  // Runs at most `limit` tasks at a time; results keep the order of `items`
+  static async map<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await task(items[index], index);
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+  }
+}
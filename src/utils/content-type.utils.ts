@@ -0,0 +1,22 @@
+export class ContentTypeUtils {
+  private static readonly CONTENT_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+    '.gif': 'image/gif',
+    '.bmp': 'image/bmp',
+    '.tiff': 'image/tiff',
+    '.svg': 'image/svg+xml',
+    '.json': 'application/json'
+  };
+
+  static fromPath(path: string): string {
+    const lastDotIndex = path.lastIndexOf('.');
+    if (lastDotIndex === -1) {
+      return 'application/octet-stream';
+    }
+    return this.CONTENT_TYPES[path.substring(lastDotIndex).toLowerCase()] || 'application/octet-stream';
+  }
+}
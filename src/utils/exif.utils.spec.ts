@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { ExifUtils, ExifValue } from './exif.utils';
+
+describe('ExifUtils', () => {
+  // A TIFF block with IFD0 at offset 8: Orientation (SHORT), Copyright (ASCII,
+  // stored after the IFD) and a GPS pointer to a second IFD with GPSLatitude (RATIONAL x3)
+  const createExif = (littleEndian: boolean) => {
+    const buffer = Buffer.alloc(128);
+    const u16 = (value: number, offset: number) => littleEndian ? buffer.writeUInt16LE(value, offset) : buffer.writeUInt16BE(value, offset);
+    const u32 = (value: number, offset: number) => littleEndian ? buffer.writeUInt32LE(value, offset) : buffer.writeUInt32BE(value, offset);
+    const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+      u16(tag, offset);
+      u16(type, offset + 2);
+      u32(count, offset + 4);
+      if (type === 3 && count === 1) {
+        u16(value, offset + 8);
+      } else {
+        u32(value, offset + 8);
+      }
+    };
+
+    buffer.write(littleEndian ? 'II' : 'MM', 0, 'latin1');
+    u16(42, 2);
+    u32(8, 4);
+    u16(3, 8);
+    entry(10, 0x0112, 3, 1, 6);
+    entry(22, 0x8298, 2, 5, 50);
+    entry(34, 0x8825, 4, 1, 60);
+    buffer.write('ACME\0', 50, 'latin1');
+    u16(1, 60);
+    entry(62, 0x0002, 5, 3, 80);
+    [51, 1, 30, 1, 15, 2].forEach((value, index) => u32(value, 80 + index * 4));
+    return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), buffer]);
+  };
+
+  it.each([true, false])('should read IFD0 and GPS tags (little endian: %s)', littleEndian => {
+    const data = ExifUtils.parse(createExif(littleEndian));
+
+    expect(data.ifd0[0x0112]).toBe(6);
+    expect(data.ifd0[ExifUtils.TAGS.COPYRIGHT]).toBe('ACME');
+    expect(data.gps[0x0002]).toEqual([51, 30, 7.5]);
+    expect(data.exif).toEqual({});
+  });
+
+  it('should return no tags without EXIF data', () => {
+    expect(ExifUtils.parse(undefined)).toEqual({ ifd0: {}, exif: {}, gps: {} });
+    expect(ExifUtils.parse(Buffer.from('not exif'))).toEqual({ ifd0: {}, exif: {}, gps: {} });
+  });
+
+  it('should skip values outside a truncated block', () => {
+    const data = ExifUtils.parse(createExif(true).subarray(0, 6 + 70));
+
+    expect(data.ifd0[0x0112]).toBe(6);
+    expect(data.ifd0[ExifUtils.TAGS.COPYRIGHT]).toBe('ACME');
+    expect(data.gps).toEqual({});
+  });
+
+  describe('getDateTaken', () => {
+    const withExif = (exif: Record<number, ExifValue>) => ({ ifd0: {}, exif, gps: {} });
+
+    it('should convert the EXIF date to ISO 8601 with the recorded offset', () => {
+      expect(ExifUtils.getDateTaken(withExif({ 0x9003: '2024:05:17 18:32:10', 0x9011: '+10:00' }))).toBe('2024-05-17T18:32:10+10:00');
+      expect(ExifUtils.getDateTaken(withExif({ 0x9004: '2024:05:17 18:32:10' }))).toBe('2024-05-17T18:32:10');
+    });
+
+    it('should ignore blank and malformed dates', () => {
+      expect(ExifUtils.getDateTaken(withExif({ 0x9003: '0000:00:00 00:00:00' }))).toBeUndefined();
+      expect(ExifUtils.getDateTaken(withExif({ 0x9003: 'yesterday' }))).toBeUndefined();
+    });
+  });
+
+  describe('getLocation', () => {
+    const withGps = (gps: Record<number, ExifValue>) => ({ ifd0: {}, exif: {}, gps });
+
+    it('should convert degrees, minutes and seconds to signed decimal degrees', () => {
+      const location = ExifUtils.getLocation(withGps({ 1: 'S', 2: [33, 51, 35.4], 3: 'W', 4: [0, 7, 30], 5: 1, 6: 12 }));
+
+      expect(location).toEqual({ latitude: -33.859833, longitude: -0.125, altitude: -12 });
+    });
+
+    it('should need both coordinates', () => {
+      expect(ExifUtils.getLocation(withGps({ 1: 'N', 2: [51, 30, 0] }))).toBeUndefined();
+      expect(ExifUtils.getLocation(withGps({ 1: 'N', 2: [91, 0, 0], 3: 'E', 4: [0, 0, 0] }))).toBeUndefined();
+    });
+  });
+});
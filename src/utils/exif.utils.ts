@@ -0,0 +1,201 @@
+export type ExifValue = string | number | number[] | Buffer;
+
+// Tags by numeric id, e.g. data.ifd0[ExifUtils.TAGS.COPYRIGHT]
+export interface ExifData {
+  ifd0: Record<number, ExifValue>;
+  exif: Record<number, ExifValue>;
+  gps: Record<number, ExifValue>;
+}
+
+export class ExifUtils {
+  static readonly TAGS = {
+    // IFD0
+    MAKE: 0x010f,
+    MODEL: 0x0110,
+    ORIENTATION: 0x0112,
+    COPYRIGHT: 0x8298,
+    EXIF_IFD: 0x8769,
+    GPS_IFD: 0x8825,
+    // Exif sub-IFD
+    EXPOSURE_TIME: 0x829a,
+    F_NUMBER: 0x829d,
+    ISO: 0x8827,
+    DATE_TIME_ORIGINAL: 0x9003,
+    DATE_TIME_DIGITIZED: 0x9004,
+    OFFSET_TIME_ORIGINAL: 0x9011,
+    FOCAL_LENGTH: 0x920a,
+    BODY_SERIAL_NUMBER: 0xa431,
+    LENS_MAKE: 0xa433,
+    LENS_MODEL: 0xa434,
+    LENS_SERIAL_NUMBER: 0xa435,
+    // GPS IFD
+    GPS_LATITUDE_REF: 0x0001,
+    GPS_LATITUDE: 0x0002,
+    GPS_LONGITUDE_REF: 0x0003,
+    GPS_LONGITUDE: 0x0004,
+    GPS_ALTITUDE_REF: 0x0005,
+    GPS_ALTITUDE: 0x0006
+  };
+
+  // Bytes per value of each TIFF field type; other types are skipped
+  private static readonly TYPE_SIZES: Record<number, number> = {
+    1: 1,   // BYTE
+    2: 1,   // ASCII
+    3: 2,   // SHORT
+    4: 4,   // LONG
+    5: 8,   // RATIONAL
+    7: 1,   // UNDEFINED
+    9: 4,   // SLONG
+    10: 8   // SRATIONAL
+  };
+
+  // Reads the EXIF block from sharp's metadata. The data comes from the upload, so
+  // malformed or truncated blocks never throw: whatever could be read is returned.
+  static parse(exif?: Buffer): ExifData {
+    const data: ExifData = { ifd0: {}, exif: {}, gps: {} };
+    if (!exif) {
+      return data;
+    }
+
+    // sharp keeps the "Exif\0\0" header of the JPEG APP1 segment
+    const tiff = exif.toString('latin1', 0, 6) === 'Exif\0\0' ? exif.subarray(6) : exif;
+    if (tiff.length < 8) {
+      return data;
+    }
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return data;
+    }
+    const littleEndian = byteOrder === 'II';
+    if (this.readUInt(tiff, 2, 2, littleEndian) !== 42) {
+      return data;
+    }
+
+    this.readIfd(tiff, this.readUInt(tiff, 4, 4, littleEndian), littleEndian, data.ifd0);
+    const exifOffset = data.ifd0[this.TAGS.EXIF_IFD];
+    if (typeof exifOffset === 'number') {
+      this.readIfd(tiff, exifOffset, littleEndian, data.exif);
+    }
+    const gpsOffset = data.ifd0[this.TAGS.GPS_IFD];
+    if (typeof gpsOffset === 'number') {
+      this.readIfd(tiff, gpsOffset, littleEndian, data.gps);
+    }
+    return data;
+  }
+
+  // A string tag, or undefined when it is missing, empty or of another type
+  static getString(tags: Record<number, ExifValue>, tag: number): string | undefined {
+    const value = tags[tag];
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  // A numeric tag; the first value when the tag holds several
+  static getNumber(tags: Record<number, ExifValue>, tag: number): number | undefined {
+    const value = tags[tag];
+    const number = Array.isArray(value) ? value[0] : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+  }
+
+  // When the photo was taken, as ISO 8601; with the UTC offset when the camera recorded it
+  static getDateTaken(data: ExifData): string | undefined {
+    const dateTime = this.getString(data.exif, this.TAGS.DATE_TIME_ORIGINAL)
+      || this.getString(data.exif, this.TAGS.DATE_TIME_DIGITIZED);
+    const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(dateTime || '');
+    if (!match || match[1] === '0000') {
+      return undefined;
+    }
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    const offset = this.getString(data.exif, this.TAGS.OFFSET_TIME_ORIGINAL);
+    return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}${/^[+-]\d{2}:\d{2}$/.test(offset) ? offset : ''}`;
+  }
+
+  // Decimal degrees, negative south and west; altitude in meters, negative below sea level
+  static getLocation(data: ExifData): { latitude: number; longitude: number; altitude?: number } | undefined {
+    const latitude = this.toDegrees(data.gps[this.TAGS.GPS_LATITUDE], data.gps[this.TAGS.GPS_LATITUDE_REF], 'S');
+    const longitude = this.toDegrees(data.gps[this.TAGS.GPS_LONGITUDE], data.gps[this.TAGS.GPS_LONGITUDE_REF], 'W');
+    if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return undefined;
+    }
+
+    const location: { latitude: number; longitude: number; altitude?: number } = { latitude, longitude };
+    const altitude = this.getNumber(data.gps, this.TAGS.GPS_ALTITUDE);
+    if (altitude !== undefined) {
+      location.altitude = this.getNumber(data.gps, this.TAGS.GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+    }
+    return location;
+  }
+
+  // Degrees, minutes and seconds to decimal degrees, rounded to about 10 cm
+  private static toDegrees(value: ExifValue, ref: ExifValue, negativeRef: string): number | undefined {
+    if (!Array.isArray(value) || value.length !== 3) {
+      return undefined;
+    }
+    const [degrees, minutes, seconds] = value;
+    const decimal = Math.round((degrees + minutes / 60 + seconds / 3600) * 1e6) / 1e6;
+    return ref === negativeRef ? -decimal : decimal;
+  }
+
+  private static readIfd(tiff: Buffer, offset: number, littleEndian: boolean, tags: Record<number, ExifValue>): void {
+    if (offset + 2 > tiff.length) {
+      return;
+    }
+    const count = this.readUInt(tiff, offset, 2, littleEndian);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) {
+        return;
+      }
+      const tag = this.readUInt(tiff, entry, 2, littleEndian);
+      const type = this.readUInt(tiff, entry + 2, 2, littleEndian);
+      const valueCount = this.readUInt(tiff, entry + 4, 4, littleEndian);
+      const size = this.TYPE_SIZES[type] * valueCount;
+      if (!size) {
+        continue;
+      }
+      // Values of up to four bytes are stored in the entry itself
+      const valueOffset = size <= 4 ? entry + 8 : this.readUInt(tiff, entry + 8, 4, littleEndian);
+      if (valueOffset + size > tiff.length) {
+        continue;
+      }
+      tags[tag] = this.readValue(tiff, type, valueOffset, valueCount, littleEndian);
+    }
+  }
+
+  private static readValue(tiff: Buffer, type: number, offset: number, count: number, littleEndian: boolean): ExifValue {
+    const size = this.TYPE_SIZES[type];
+    if (type === 2) {
+      return tiff.toString('utf8', offset, offset + count).replace(/\0[\s\S]*$/, '').trim();
+    }
+    if (type === 7) {
+      return Buffer.from(tiff.subarray(offset, offset + count));
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const position = offset + i * size;
+      if (type === 5 || type === 10) {
+        const signed = type === 10;
+        const numerator = this.readInt(tiff, position, littleEndian, signed);
+        const denominator = this.readInt(tiff, position + 4, littleEndian, signed);
+        values.push(denominator ? numerator / denominator : 0);
+      } else if (type === 9) {
+        values.push(this.readInt(tiff, position, littleEndian, true));
+      } else {
+        values.push(this.readUInt(tiff, position, size, littleEndian));
+      }
+    }
+    return count === 1 ? values[0] : values;
+  }
+
+  private static readUInt(tiff: Buffer, offset: number, size: number, littleEndian: boolean): number {
+    return littleEndian ? tiff.readUIntLE(offset, size) : tiff.readUIntBE(offset, size);
+  }
+
+  private static readInt(tiff: Buffer, offset: number, littleEndian: boolean, signed: boolean): number {
+    if (!signed) {
+      return this.readUInt(tiff, offset, 4, littleEndian);
+    }
+    return littleEndian ? tiff.readInt32LE(offset) : tiff.readInt32BE(offset);
+  }
+}
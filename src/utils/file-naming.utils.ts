@@ -19,7 +19,7 @@ export class FileNamingUtils {
     return `${basePath}/${fileName}`;
   }
 
-  private static getFileExtension(filename: string): string {
+  static getFileExtension(filename: string): string {
     const lastDotIndex = filename.lastIndexOf('.');
     if (lastDotIndex === -1) {
       return '';
@@ -27,7 +27,7 @@ export class FileNamingUtils {
     return filename.substring(lastDotIndex);
   }
 
-  private static getBaseName(filename: string): string {
+  static getBaseName(filename: string): string {
     const lastDotIndex = filename.lastIndexOf('.');
     if (lastDotIndex === -1) {
       return filename;
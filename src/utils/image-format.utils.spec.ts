@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { ImageFormatUtils } from './image-format.utils';
+import { ImageFormat } from '../interfaces/image-processing.interface';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
+
+describe('ImageFormatUtils', () => {
+  describe('validate', () => {
+    it('should accept the options of each encoder', () => {
+      const formats: ImageFormat[] = [
+        { type: 'webp', quality: 75, effort: 6, nearLossless: true, alphaQuality: 90, smartSubsample: true },
+        { type: 'avif', quality: 50, effort: 9, lossless: false, chromaSubsampling: '4:4:4' },
+        { type: 'jpeg', quality: 85, progressive: true, mozjpeg: true, chromaSubsampling: '4:2:0' },
+        { type: 'png', palette: true, colors: 64, effort: 1, compressionLevel: 9, progressive: true },
+        { type: 'gif', colors: 32, effort: 10 },
+        { type: 'tiff', quality: 90 }
+      ];
+
+      formats.forEach(format => expect(() => ImageFormatUtils.validate(format)).not.toThrow());
+    });
+
+    it('should reject options the encoder does not support', () => {
+      expect(() => ImageFormatUtils.validate({ type: 'jpeg', lossless: true }))
+        .toThrow('Option lossless is not supported for jpeg');
+      expect(() => ImageFormatUtils.validate({ type: 'png', mozjpeg: true })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'webp', colors: 16 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'gif', quality: 80 })).toThrow(InvalidConfigurationError);
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => ImageFormatUtils.validate({ type: 'webp', quality: 0 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'webp', effort: 7 }))
+        .toThrow('webp effort must be an integer between 0 and 6, got 7');
+      expect(() => ImageFormatUtils.validate({ type: 'avif', effort: 9.5 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'png', colors: 300 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'png', compressionLevel: 10 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'jpeg', chromaSubsampling: '4:2:2' as '4:2:0' }))
+        .toThrow(InvalidConfigurationError);
+    });
+
+    it('should reject unknown types and palette settings without palette: true', () => {
+      expect(() => ImageFormatUtils.validate({ type: 'bmp' as 'png' })).toThrow('Unknown format: bmp');
+      expect(() => ImageFormatUtils.validate({ type: 'png', palette: false, quality: 60 }))
+        .toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'png', quality: 95 })).toThrow('PNG quality, colors and effort require palette: true');
+      expect(() => ImageFormatUtils.validate({ type: 'png', colors: 16 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageFormatUtils.validate({ type: 'png', effort: 5 })).toThrow(InvalidConfigurationError);
+    });
+  });
+
+  describe('getQuality', () => {
+    it('should default to 80', () => {
+      expect(ImageFormatUtils.getQuality({ type: 'webp' })).toBe(80);
+      expect(ImageFormatUtils.getQuality({ type: 'jpeg', quality: 90 })).toBe(90);
+    });
+
+    it('should only give PNG a quality when it uses a palette', () => {
+      expect(ImageFormatUtils.getQuality({ type: 'png' })).toBeUndefined();
+      expect(ImageFormatUtils.getQuality({ type: 'png', palette: true })).toBe(80);
+      expect(ImageFormatUtils.getQuality({ type: 'png', palette: true, quality: 60 })).toBe(60);
+      expect(ImageFormatUtils.usesPalette({ type: 'png', colors: 16 })).toBe(false);
+    });
+
+    it('should not give GIF a quality', () => {
+      expect(ImageFormatUtils.getQuality({ type: 'gif' })).toBeUndefined();
+    });
+  });
+
+  describe('getKey', () => {
+    it('should list the encoder settings in a stable order', () => {
+      expect(ImageFormatUtils.getKey({ type: 'webp', lossless: true, effort: 6 })).toBe('webp;effort=6;lossless=true;quality=80');
+      expect(ImageFormatUtils.getKey({ type: 'gif' })).toBe('gif');
+    });
+
+    it('should give an unset quality and the default the same key', () => {
+      expect(ImageFormatUtils.getKey({ type: 'jpeg' })).toBe(ImageFormatUtils.getKey({ type: 'jpeg', quality: 80 }));
+      expect(ImageFormatUtils.getKey({ type: 'jpeg' })).not.toBe(ImageFormatUtils.getKey({ type: 'jpeg', quality: 90 }));
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { ImageFormat } from '../interfaces/image-processing.interface';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
+
+type EncoderOption = Exclude<keyof ImageFormat, 'type'>;
+
+export class ImageFormatUtils {
+  static readonly TYPES: ImageFormat['type'][] = ['webp', 'avif', 'jpeg', 'png', 'gif', 'tiff'];
+
+  static readonly DEFAULT_QUALITY = 80;
+
+  // Options each encoder understands; anything else is rejected rather than silently ignored
+  private static readonly OPTIONS: Record<ImageFormat['type'], EncoderOption[]> = {
+    webp: ['quality', 'effort', 'lossless', 'nearLossless', 'alphaQuality', 'smartSubsample'],
+    avif: ['quality', 'effort', 'lossless', 'chromaSubsampling'],
+    jpeg: ['quality', 'progressive', 'mozjpeg', 'chromaSubsampling'],
+    png: ['quality', 'effort', 'palette', 'colors', 'compressionLevel', 'progressive'],
+    gif: ['colors', 'effort'],
+    tiff: ['quality']
+  };
+
+  private static readonly EFFORT: Partial<Record<ImageFormat['type'], [number, number]>> = {
+    webp: [0, 6],
+    avif: [0, 9],
+    png: [1, 10],
+    gif: [1, 10]
+  };
+
+  // PNG is lossless unless a palette is requested with palette: true
+  static usesPalette(format: ImageFormat): boolean {
+    return format.palette === true;
+  }
+
+  // The quality the encoder actually uses, or undefined for lossless PNG and GIF
+  static getQuality(format: ImageFormat): number | undefined {
+    if (format.type === 'gif' || (format.type === 'png' && !this.usesPalette(format))) {
+      return undefined;
+    }
+    return format.quality ?? this.DEFAULT_QUALITY;
+  }
+
+  // Identifies a format by its encoder settings, e.g. 'webp;effort=6;quality=80'. Quality is
+  // the one the encoder uses, so an unset quality and the default give the same key.
+  static getKey(format: ImageFormat): string {
+    const options = Object.entries({ ...format, quality: this.getQuality(format) })
+      .filter(([name, value]) => name !== 'type' && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${value}`);
+    return [format.type, ...options].join(';');
+  }
+
+  static validate(format: ImageFormat): void {
+    const options = this.OPTIONS[format.type];
+    if (!options) {
+      throw new InvalidConfigurationError(`Unknown format: ${format.type}`);
+    }
+
+    for (const [name, value] of Object.entries(format)) {
+      if (name !== 'type' && value !== undefined && !options.includes(name as EncoderOption)) {
+        throw new InvalidConfigurationError(`Option ${name} is not supported for ${format.type}`);
+      }
+    }
+
+    this.validateInteger(format, 'quality', 1, 100);
+    this.validateInteger(format, 'alphaQuality', 0, 100);
+    this.validateInteger(format, 'colors', 2, 256);
+    this.validateInteger(format, 'compressionLevel', 0, 9);
+    if (this.EFFORT[format.type]) {
+      this.validateInteger(format, 'effort', ...this.EFFORT[format.type]);
+    }
+
+    if (format.chromaSubsampling !== undefined && !['4:2:0', '4:4:4'].includes(format.chromaSubsampling)) {
+      throw new InvalidConfigurationError(`Chroma subsampling must be "4:2:0" or "4:4:4", got ${format.chromaSubsampling}`);
+    }
+    // Only palette output uses them; rejected rather than ignored or turning the palette on
+    if (format.type === 'png' && !this.usesPalette(format)
+      && [format.quality, format.colors, format.effort].some(value => value !== undefined)) {
+      throw new InvalidConfigurationError('PNG quality, colors and effort require palette: true');
+    }
+  }
+
+  private static validateInteger(format: ImageFormat, name: EncoderOption, min: number, max: number): void {
+    const value = format[name];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < min || (value as number) > max)) {
+      throw new InvalidConfigurationError(`${format.type} ${name} must be an integer between ${min} and ${max}, got ${value}`);
+    }
+  }
+}
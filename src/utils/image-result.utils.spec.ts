@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { ImageResultUtils } from './image-result.utils';
+import { GeneratedVariant, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+describe('ImageResultUtils', () => {
+  const variant = (path: string, format: GeneratedVariant['format']): GeneratedVariant => ({
+    path,
+    format,
+    width: 320,
+    sizeKey: '320w',
+    dpr: 1,
+    pixelWidth: 320,
+    pixelHeight: 240,
+    bytes: 100
+  });
+
+  const result: ImageProcessingResult = {
+    original: '/uploads/originals/abc.jpg',
+    originalMetadata: { width: 1024, height: 768, format: 'jpeg', bytes: 1000 },
+    generated: {
+      webp: [variant('/a_320w@1x.webp', 'webp')],
+      avif: [variant('/a_320w@1x.avif', 'avif'), variant('/a_320w@2x.avif', 'avif')]
+    },
+    deduplicated: false
+  };
+
+  it('should return legacy path arrays', () => {
+    expect(ImageResultUtils.getGeneratedPaths(result)).toEqual({
+      webp: ['/a_320w@1x.webp'],
+      avif: ['/a_320w@1x.avif', '/a_320w@2x.avif']
+    });
+  });
+
+  it('should flatten variants across formats', () => {
+    expect(ImageResultUtils.getAllVariants(result).map(item => item.path)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,16 @@
+import { GeneratedVariant, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+export class ImageResultUtils {
+  // Compatibility accessor for code written against the old `{ [format]: string[] }` shape
+  static getGeneratedPaths(result: ImageProcessingResult): { [format: string]: string[] } {
+    const paths: { [format: string]: string[] } = {};
+    for (const [format, variants] of Object.entries(result.generated)) {
+      paths[format] = variants.map(variant => variant.path);
+    }
+    return paths;
+  }
+
+  static getAllVariants(result: ImageProcessingResult): GeneratedVariant[] {
+    return Object.values(result.generated).flat();
+  }
+}
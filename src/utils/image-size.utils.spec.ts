@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ImageSizeUtils } from './image-size.utils';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
+
+describe('ImageSizeUtils', () => {
+  describe('getKey', () => {
+    it('should describe width-only sizes by width', () => {
+      expect(ImageSizeUtils.getKey({ width: 320 })).toBe('320w');
+      expect(ImageSizeUtils.getKey({ width: 320, fit: 'cover' })).toBe('320w');
+    });
+
+    it('should distinguish sizes that share a width', () => {
+      expect(ImageSizeUtils.getKey({ width: 256, height: 144 })).toBe('256x144');
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'cover' })).toBe('256x256-cover');
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'cover', position: 'right top' }))
+        .toBe('256x256-cover-right-top');
+    });
+
+    it('should distinguish backgrounds and enlargement', () => {
+      expect(ImageSizeUtils.getKey({ width: 1200, height: 630, fit: 'contain', background: '#FFFFFF' }))
+        .toBe('1200x630-contain-bg-ffffff');
+      expect(ImageSizeUtils.getKey({ width: 64, height: 64, fit: 'contain', background: 'rgba(0, 0, 0, 0.5)' }))
+        .toBe('64x64-contain-bg-rgba-0-0-0-0.5');
+      expect(ImageSizeUtils.getKey({ width: 640, allowEnlargement: true })).toBe('640w-enlarge');
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'cover', allowEnlargement: true })).toBe('256x256-cover-enlarge');
+    });
+
+    it('should ignore options that do not change the crop', () => {
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'inside', position: 'top' })).toBe('256x256');
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'cover', position: 'center' })).toBe('256x256-cover');
+      expect(ImageSizeUtils.getKey({ width: 256, height: 256, fit: 'cover', background: '#ffffff', allowEnlargement: false }))
+        .toBe('256x256-cover');
+    });
+  });
+
+  describe('getFocalCrop', () => {
+    const source = { width: 400, height: 200 };
+
+    it('should center the largest crop of the target ratio on the focal point', () => {
+      expect(ImageSizeUtils.getFocalCrop(source, { width: 100, height: 100 }, { x: 0.5, y: 0.5 }))
+        .toEqual({ left: 100, top: 0, width: 200, height: 200 });
+      expect(ImageSizeUtils.getFocalCrop(source, { width: 100, height: 100 }, { x: 0.4, y: 0.5 }))
+        .toEqual({ left: 60, top: 0, width: 200, height: 200 });
+    });
+
+    it('should keep the crop inside the source', () => {
+      expect(ImageSizeUtils.getFocalCrop(source, { width: 100, height: 100 }, { x: 0, y: 0 }))
+        .toEqual({ left: 0, top: 0, width: 200, height: 200 });
+      expect(ImageSizeUtils.getFocalCrop(source, { width: 400, height: 50 }, { x: 1, y: 1 }))
+        .toEqual({ left: 0, top: 150, width: 400, height: 50 });
+    });
+  });
+
+  describe('validate', () => {
+    it('should accept content-aware strategies for cover only', () => {
+      expect(() => ImageSizeUtils.validate({ width: 256, height: 256, fit: 'cover', position: 'attention' })).not.toThrow();
+      expect(() => ImageSizeUtils.validate({ width: 256, height: 256, fit: 'contain', position: 'attention' }))
+        .toThrow(InvalidConfigurationError);
+    });
+
+    it('should reject invalid dimensions and options', () => {
+      expect(() => ImageSizeUtils.validate({ width: 320.5 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageSizeUtils.validate({ width: 320, height: -1 })).toThrow(InvalidConfigurationError);
+      expect(() => ImageSizeUtils.validate({ width: 320, position: 'middle' as any })).toThrow(InvalidConfigurationError);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { ImageSize, ImageFit, ImagePosition, FocalPoint } from '../interfaces/image-processing.interface';
+import { InvalidConfigurationError } from '../errors/image-processing.errors';
+
+export class ImageSizeUtils {
+  static readonly FITS: ImageFit[] = ['cover', 'contain', 'fill', 'inside', 'outside'];
+
+  static readonly POSITIONS: ImagePosition[] = [
+    'center', 'top', 'right top', 'right', 'right bottom', 'bottom', 'left bottom', 'left', 'left top',
+    'attention', 'entropy'
+  ];
+
+  // Content-aware strategies pick the crop, so they only apply to cover
+  private static readonly STRATEGIES: ImagePosition[] = ['attention', 'entropy'];
+
+  // Identifies a size by what it renders: '320w', '320x240', '256x256-cover', '256x256-cover-attention',
+  // '1200x630-contain-bg-ffffff', '640w-enlarge'. Sizes that share a width but render differently
+  // get different keys. The key goes into file names, so the background keeps only [a-z0-9.].
+  static getKey(size: ImageSize): string {
+    const enlarge = size.allowEnlargement ? '-enlarge' : '';
+    if (!size.height) {
+      return `${size.width}w${enlarge}`;
+    }
+
+    const fit = size.fit || 'inside';
+    let key = `${size.width}x${size.height}`;
+    if (fit !== 'inside') {
+      key += `-${fit}`;
+    }
+    if ((fit === 'cover' || fit === 'contain') && size.position && size.position !== 'center') {
+      key += `-${size.position.replace(' ', '-')}`;
+    }
+    if (fit === 'contain' && size.background) {
+      key += `-bg-${size.background.toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-|-$/g, '')}`;
+    }
+    return key + enlarge;
+  }
+
+  // The largest region of the size's aspect ratio, centered on the focal point and
+  // shifted as little as needed to stay inside the source
+  static getFocalCrop(
+    source: { width: number; height: number },
+    size: ImageSize,
+    focalPoint: FocalPoint
+  ): { left: number; top: number; width: number; height: number } {
+    const aspectRatio = size.width / size.height;
+    const width = Math.min(source.width, Math.round(source.height * aspectRatio));
+    const height = Math.min(source.height, Math.round(source.width / aspectRatio));
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+    return {
+      left: clamp(Math.round(focalPoint.x * source.width - width / 2), source.width - width),
+      top: clamp(Math.round(focalPoint.y * source.height - height / 2), source.height - height),
+      width,
+      height
+    };
+  }
+
+  static isStrategy(position?: ImagePosition): boolean {
+    return this.STRATEGIES.includes(position);
+  }
+
+  static validate(size: ImageSize): void {
+    if (!Number.isInteger(size.width) || size.width < 1) {
+      throw new InvalidConfigurationError(`Size width must be a positive integer, got ${size.width}`);
+    }
+    if (size.height !== undefined && (!Number.isInteger(size.height) || size.height < 1)) {
+      throw new InvalidConfigurationError(`Size height must be a positive integer, got ${size.height}`);
+    }
+    if (size.fit !== undefined && !this.FITS.includes(size.fit)) {
+      throw new InvalidConfigurationError(`Unknown fit: ${size.fit}`);
+    }
+    if (size.position !== undefined && !this.POSITIONS.includes(size.position)) {
+      throw new InvalidConfigurationError(`Unknown position: ${size.position}`);
+    }
+    if (this.isStrategy(size.position) && size.fit !== 'cover') {
+      throw new InvalidConfigurationError(`Position ${size.position} requires fit "cover"`);
+    }
+  }
+}
@@ -1,6 +1,13 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import sharp from 'sharp';
 import { ImageValidator } from './image-validator';
-import { UnsupportedImageFormatError, ImageValidationError } from '../errors/image-processing.errors';
+import {
+  UnsupportedImageFormatError,
+  ImageValidationError,
+  ImageContentMismatchError,
+  ImageLimitError
+} from '../errors/image-processing.errors';
+import { ImageFixtures } from '../testing/image-fixtures';
 
 describe('ImageValidator', () => {
   describe('validateMimeType', () => {
@@ -110,4 +117,146 @@ describe('ImageValidator', () => {
         .toThrow(ImageValidationError);
     });
   });
+
+  describe('detectFormat', () => {
+    it('should detect raster formats from their signatures', async () => {
+      expect(ImageValidator.detectFormat(await ImageFixtures.solidColor({ format: 'jpeg' }))).toBe('jpeg');
+      expect(ImageValidator.detectFormat(await ImageFixtures.solidColor({ format: 'png' }))).toBe('png');
+      expect(ImageValidator.detectFormat(await ImageFixtures.solidColor({ format: 'webp' }))).toBe('webp');
+      expect(ImageValidator.detectFormat(await ImageFixtures.solidColor({ format: 'avif' }))).toBe('avif');
+      expect(ImageValidator.detectFormat(await ImageFixtures.animated({ frames: 1 }))).toBe('gif');
+      expect(ImageValidator.detectFormat(await sharp(await ImageFixtures.solidColor()).tiff().toBuffer())).toBe('tiff');
+      expect(ImageValidator.detectFormat(Buffer.from('BM\x36\x00\x00\x00', 'latin1'))).toBe('bmp');
+    });
+
+    it('should tell HEIF from AVIF by the ftyp brands', () => {
+      const ftyp = (...brands: string[]) => {
+        const box = Buffer.alloc(8 + brands.length * 4 + 4);
+        box.writeUInt32BE(box.length, 0);
+        box.write('ftyp', 4, 'latin1');
+        box.write(brands[0], 8, 'latin1');
+        brands.slice(1).forEach((brand, index) => box.write(brand, 16 + index * 4, 'latin1'));
+        return box;
+      };
+
+      expect(ImageValidator.detectFormat(ftyp('heic', 'mif1', 'heic'))).toBe('heif');
+      expect(ImageValidator.detectFormat(ftyp('mif1', 'mif1', 'avif'))).toBe('avif');
+      expect(ImageValidator.detectFormat(ftyp('isom', 'mp41'))).toBeNull();
+    });
+
+    it('should detect SVG after an XML declaration, comments and doctype', () => {
+      const svg = '\uFEFF<?xml version="1.0"?>\n<!-- icon -->\n<!DOCTYPE svg>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+
+      expect(ImageValidator.detectFormat(Buffer.from(svg))).toBe('svg');
+      expect(ImageValidator.detectFormat(Buffer.from('<svg/>'))).toBeNull();
+    });
+
+    it('should detect SVG with a doctype internal subset', () => {
+      const svg = '<?xml version="1.0"?>\n<!DOCTYPE svg [\n  <!ENTITY logo "<g id=\'logo\'>x</g>">\n]>\n<svg xmlns="http://www.w3.org/2000/svg">&logo;</svg>';
+
+      expect(ImageValidator.detectFormat(Buffer.from(svg))).toBe('svg');
+      expect(ImageValidator.detectFormat(Buffer.from('<!DOCTYPE svg [<!ENTITY a "b">]> <html>'))).toBeNull();
+    });
+
+    it('should detect SVG after a comment of any length', () => {
+      const svg = `<!-- ${'license text '.repeat(1000)}-->\n<svg xmlns="http://www.w3.org/2000/svg"></svg>`;
+
+      expect(ImageValidator.detectFormat(Buffer.from(svg))).toBe('svg');
+      expect(ImageValidator.detectFormat(Buffer.from(`<!-- ${'x'.repeat(10000)}`))).toBeNull();
+    });
+
+    it('should reject a prolog of many comments in linear time', () => {
+      const start = Date.now();
+
+      expect(ImageValidator.detectFormat(Buffer.from('<!---->'.repeat(500) + 'x'))).toBeNull();
+      expect(ImageValidator.detectFormat(Buffer.from('<!---->'.repeat(500) + '<svg>'))).toBe('svg');
+      expect(ImageValidator.detectFormat(Buffer.from('<!DOCTYPE svg [' + '] '.repeat(50000)))).toBeNull();
+      expect(Date.now() - start).toBeLessThan(100);
+    });
+
+    it('should not detect non-image content', () => {
+      expect(ImageValidator.detectFormat(Buffer.from('<!DOCTYPE html><html><body>hi</body></html>'))).toBeNull();
+      expect(ImageValidator.detectFormat(Buffer.from([0x00]))).toBeNull();
+    });
+  });
+
+  describe('strict validation', () => {
+    it('should accept files whose bytes match the extension and MIME type', async () => {
+      const png = await ImageFixtures.solidColor({ format: 'png' });
+
+      expect(() => ImageValidator.validateFile(png, 'photo.png', 'image/png', undefined, true)).not.toThrow();
+    });
+
+    it('should reject a renamed HTML file', () => {
+      const html = Buffer.from('<html><body>not an image</body></html>');
+
+      expect(() => ImageValidator.validateFile(html, 'photo.jpg', 'image/jpeg')).not.toThrow();
+      expect(() => ImageValidator.validateFile(html, 'photo.jpg', 'image/jpeg', undefined, true))
+        .toThrow(ImageContentMismatchError);
+    });
+
+    it('should reject a mislabeled extension or MIME type with a specific code', async () => {
+      const png = await ImageFixtures.solidColor({ format: 'png' });
+
+      expect(() => ImageValidator.validateContent(png, 'photo.jpg')).toThrow(expect.objectContaining({
+        code: 'CONTENT_MISMATCH',
+        declaredFormat: '.jpg',
+        detectedFormat: 'png'
+      }));
+      expect(() => ImageValidator.validateContent(png, 'photo.png', 'image/webp')).toThrow(expect.objectContaining({
+        code: 'CONTENT_MISMATCH',
+        declaredFormat: 'image/webp'
+      }));
+    });
+
+    it('should treat jpg and jpeg as the same format', async () => {
+      const jpeg = await ImageFixtures.solidColor({ format: 'jpeg' });
+
+      expect(() => ImageValidator.validateContent(jpeg, 'photo.jpeg', 'image/jpg')).not.toThrow();
+    });
+  });
+
+  describe('validateDimensions', () => {
+    const limits = { maxWidth: 4000, maxHeight: 3000, maxMegapixels: 10, minWidth: 10, minHeight: 10, maxFrames: 5 };
+
+    it('should accept images within all limits', () => {
+      expect(() => ImageValidator.validateDimensions({ width: 3000, height: 2000, pages: 5 }, limits)).not.toThrow();
+    });
+
+    it.each([
+      ['maxWidth', { width: 4001, height: 100 }, 4001],
+      ['maxHeight', { width: 100, height: 3001 }, 3001],
+      ['maxMegapixels', { width: 4000, height: 2600 }, 10.4],
+      ['minWidth', { width: 9, height: 100 }, 9],
+      ['minHeight', { width: 100, height: 9 }, 9],
+      ['maxFrames', { width: 100, height: 100, pages: 6 }, 6]
+    ])('should name the failed %s limit', (limit, metadata, actual) => {
+      try {
+        ImageValidator.validateDimensions(metadata, limits);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ImageLimitError);
+        expect(error).toBeInstanceOf(ImageValidationError);
+        expect(error).toMatchObject({ code: 'LIMIT_VIOLATION', limit, actual, allowed: limits[limit] });
+      }
+    });
+
+    it('should count every frame against maxMegapixels when all frames are decoded', () => {
+      const animation = { width: 2000, height: 2000, pages: 3 };
+
+      expect(() => ImageValidator.validateDimensions(animation, limits)).not.toThrow();
+      expect(() => ImageValidator.validateDimensions(animation, limits, true)).toThrow(
+        expect.objectContaining({ limit: 'maxMegapixels', actual: 12 })
+      );
+    });
+
+    it('should skip limits that are not set', () => {
+      expect(() => ImageValidator.validateDimensions({ width: 50000, height: 50000 }, {})).not.toThrow();
+    });
+
+    it('should derive the sharp input pixel limit from maxMegapixels', () => {
+      expect(ImageValidator.getInputPixelLimit({ maxMegapixels: 2.5 })).toBe(2_500_000);
+      expect(ImageValidator.getInputPixelLimit({})).toBeUndefined();
+    });
+  });
 });
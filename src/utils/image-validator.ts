@@ -1,4 +1,12 @@
-import { ImageValidationError, UnsupportedImageFormatError } from '../errors/image-processing.errors';
+import {
+  ImageValidationError,
+  ImageContentMismatchError,
+  ImageLimitError,
+  UnsupportedImageFormatError
+} from '../errors/image-processing.errors';
+import { ImageLimits, FocalPoint, RegionOfInterest } from '../interfaces/image-processing.interface';
+
+export type DetectedImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heif' | 'tiff' | 'bmp' | 'svg';
 
 export class ImageValidator {
   private static readonly SUPPORTED_MIME_TYPES = [
@@ -17,6 +25,33 @@ export class ImageValidator {
     '.jpg', '.jpeg', '.png', '.webp', '.avif', '.gif', '.bmp', '.tiff', '.svg'
   ];
 
+  private static readonly MIME_TYPE_FORMATS: Record<string, DetectedImageFormat> = {
+    'image/jpeg': 'jpeg',
+    'image/jpg': 'jpeg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+    'image/bmp': 'bmp',
+    'image/tiff': 'tiff',
+    'image/svg+xml': 'svg'
+  };
+
+  private static readonly EXTENSION_FORMATS: Record<string, DetectedImageFormat> = {
+    '.jpg': 'jpeg',
+    '.jpeg': 'jpeg',
+    '.png': 'png',
+    '.webp': 'webp',
+    '.avif': 'avif',
+    '.gif': 'gif',
+    '.bmp': 'bmp',
+    '.tiff': 'tiff',
+    '.svg': 'svg'
+  };
+
+  private static readonly AVIF_BRANDS = ['avif', 'avis'];
+  private static readonly HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
   static validateMimeType(mimeType: string): void {
     if (!this.SUPPORTED_MIME_TYPES.includes(mimeType.toLowerCase())) {
       throw new UnsupportedImageFormatError(mimeType);
@@ -36,7 +71,66 @@ export class ImageValidator {
     }
   }
 
-  static validateFile(buffer: Buffer, filename: string, mimeType?: string, maxSizeInBytes?: number): void {
+  // Identifies the format from the file signature, ignoring the name and MIME type
+  static detectFormat(buffer: Buffer): DetectedImageFormat | null {
+    if (!buffer || buffer.length < 2) {
+      return null;
+    }
+
+    if (this.startsWith(buffer, [0xff, 0xd8, 0xff])) {
+      return 'jpeg';
+    }
+    if (this.startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+      return 'png';
+    }
+    if (this.ascii(buffer, 0, 6) === 'GIF87a' || this.ascii(buffer, 0, 6) === 'GIF89a') {
+      return 'gif';
+    }
+    if (this.ascii(buffer, 0, 4) === 'RIFF' && this.ascii(buffer, 8, 12) === 'WEBP') {
+      return 'webp';
+    }
+    if (this.ascii(buffer, 4, 8) === 'ftyp') {
+      return this.detectIsoBrand(buffer);
+    }
+    if (this.startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) || this.startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a])) {
+      return 'tiff';
+    }
+    if (this.ascii(buffer, 0, 2) === 'BM') {
+      return 'bmp';
+    }
+
+    if (this.isSvg(buffer.toString('utf8').replace(/^\uFEFF/, ''))) {
+      return 'svg';
+    }
+    return null;
+  }
+
+  // Rejects files whose signature does not match the declared extension or MIME type
+  static validateContent(buffer: Buffer, filename: string, mimeType?: string): void {
+    const detected = this.detectFormat(buffer);
+    const extension = this.getFileExtension(filename).toLowerCase();
+
+    const declaredFormats: Array<[string, DetectedImageFormat]> = [
+      [extension, this.EXTENSION_FORMATS[extension]]
+    ];
+    if (mimeType) {
+      declaredFormats.push([mimeType, this.MIME_TYPE_FORMATS[mimeType.toLowerCase()]]);
+    }
+
+    for (const [declared, format] of declaredFormats) {
+      if (detected !== format) {
+        throw new ImageContentMismatchError(declared, detected);
+      }
+    }
+  }
+
+  static validateFile(
+    buffer: Buffer,
+    filename: string,
+    mimeType?: string,
+    maxSizeInBytes?: number,
+    strict: boolean = false
+  ): void {
     if (!buffer || buffer.length === 0) {
       throw new ImageValidationError('File buffer is empty');
     }
@@ -50,6 +144,139 @@ export class ImageValidator {
     if (maxSizeInBytes) {
       this.validateFileSize(buffer, maxSizeInBytes);
     }
+
+    if (strict) {
+      this.validateContent(buffer, filename, mimeType);
+    }
+  }
+
+  // Expects header metadata (sharp `metadata()`), so it runs before any pixels are decoded
+  // `allFrames` counts the pixels of every frame against maxMegapixels, as sharp's
+  // limitInputPixels does when an animation is decoded in full
+  static validateDimensions(
+    metadata: { width?: number; height?: number; pages?: number },
+    limits: ImageLimits,
+    allFrames = false
+  ): void {
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    const frames = metadata.pages || 1;
+    const megapixels = (width * height * (allFrames ? frames : 1)) / 1_000_000;
+
+    const checks: Array<[keyof ImageLimits, number, boolean]> = [
+      ['minWidth', width, width < limits.minWidth],
+      ['minHeight', height, height < limits.minHeight],
+      ['maxWidth', width, width > limits.maxWidth],
+      ['maxHeight', height, height > limits.maxHeight],
+      ['maxMegapixels', megapixels, megapixels > limits.maxMegapixels],
+      ['maxFrames', frames, frames > limits.maxFrames]
+    ];
+
+    for (const [limit, actual, violated] of checks) {
+      if (violated) {
+        throw new ImageLimitError(limit, actual, limits[limit]);
+      }
+    }
+  }
+
+  static validateFocalPoint(point: FocalPoint): void {
+    if (![point?.x, point?.y].every(value => this.isNormalized(value))) {
+      throw new ImageValidationError('Focal point coordinates must be between 0 and 1', 'INVALID_FOCAL_POINT');
+    }
+  }
+
+  static validateRegionOfInterest(region: RegionOfInterest): void {
+    const valid = [region?.left, region?.top, region?.width, region?.height].every(value => this.isNormalized(value)) &&
+      region.width > 0 && region.height > 0 &&
+      region.left + region.width <= 1 && region.top + region.height <= 1;
+    if (!valid) {
+      throw new ImageValidationError('Region of interest must lie within the image in normalized coordinates', 'INVALID_FOCAL_POINT');
+    }
+  }
+
+  // Pixel limit for sharp's `limitInputPixels`, so decoding enforces the same bound
+  static getInputPixelLimit(limits: ImageLimits): number | undefined {
+    return limits.maxMegapixels ? Math.floor(limits.maxMegapixels * 1_000_000) : undefined;
+  }
+
+  private static isNormalized(value: number): boolean {
+    return typeof value === 'number' && value >= 0 && value <= 1;
+  }
+
+  // AVIF and HEIF share the ISO-BMFF container; the major and compatible brands tell them apart
+  // Skips the prolog (XML declaration and other processing instructions, comments of any
+  // length, a doctype with its internal subset) and expects the root <svg> element. Every
+  // part is found with indexOf from where the last one ended, so the scan stays linear.
+  private static isSvg(text: string): boolean {
+    let offset = this.skipWhitespace(text, 0);
+    while (offset < text.length) {
+      const next = text.substring(offset, offset + 9).toLowerCase();
+      let end: number;
+      if (next.startsWith('<?')) {
+        end = text.indexOf('?>', offset + 2);
+        end = end < 0 ? -1 : end + 2;
+      } else if (next.startsWith('<!--')) {
+        end = text.indexOf('-->', offset + 4);
+        end = end < 0 ? -1 : end + 3;
+      } else if (next === '<!doctype') {
+        end = this.findDoctypeEnd(text, offset);
+      } else {
+        return /^<svg[\s>]/i.test(next);
+      }
+
+      if (end < 0) {
+        return false;
+      }
+      offset = this.skipWhitespace(text, end);
+    }
+    return false;
+  }
+
+  // Index after the doctype's closing ">"; an internal subset in brackets may contain ">"
+  private static findDoctypeEnd(text: string, offset: number): number {
+    const close = text.indexOf('>', offset);
+    const subset = text.indexOf('[', offset);
+    if (subset < 0 || (close >= 0 && close < subset)) {
+      return close < 0 ? -1 : close + 1;
+    }
+    for (let bracket = text.indexOf(']', subset); bracket >= 0; bracket = text.indexOf(']', bracket + 1)) {
+      const end = this.skipWhitespace(text, bracket + 1);
+      if (text[end] === '>') {
+        return end + 1;
+      }
+    }
+    return -1;
+  }
+
+  private static skipWhitespace(text: string, offset: number): number {
+    while (offset < text.length && /\s/.test(text[offset])) {
+      offset++;
+    }
+    return offset;
+  }
+
+  private static detectIsoBrand(buffer: Buffer): DetectedImageFormat | null {
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [this.ascii(buffer, 8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+      brands.push(this.ascii(buffer, offset, offset + 4));
+    }
+
+    if (brands.some(brand => this.AVIF_BRANDS.includes(brand))) {
+      return 'avif';
+    }
+    if (brands.some(brand => this.HEIF_BRANDS.includes(brand))) {
+      return 'heif';
+    }
+    return null;
+  }
+
+  private static startsWith(buffer: Buffer, signature: number[]): boolean {
+    return buffer.length >= signature.length && signature.every((byte, index) => buffer[index] === byte);
+  }
+
+  private static ascii(buffer: Buffer, start: number, end: number): string {
+    return buffer.length >= end ? buffer.toString('latin1', start, end) : '';
   }
 
   private static getFileExtension(filename: string): string {
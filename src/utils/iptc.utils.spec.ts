@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { IptcUtils } from './iptc.utils';
+
+describe('IptcUtils', () => {
+  const dataset = (record: number, number: number, value: Buffer | string, encoding: BufferEncoding = 'utf8') => {
+    const data = typeof value === 'string' ? Buffer.from(value, encoding) : value;
+    const header = Buffer.from([0x1c, record, number, 0, 0]);
+    header.writeUInt16BE(data.length, 3);
+    return Buffer.concat([header, data]);
+  };
+
+  // Photoshop image resources as stored in the JPEG APP13 segment, with an unrelated resource first
+  const toApp13 = (iim: Buffer) => {
+    const resource = (id: number, data: Buffer) => {
+      const header = Buffer.alloc(12);
+      header.write('8BIM', 0, 'latin1');
+      header.writeUInt16BE(id, 4);
+      header.writeUInt32BE(data.length, 8);
+      return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+    };
+    return Buffer.concat([Buffer.from('Photoshop 3.0\0', 'latin1'), resource(0x03ed, Buffer.alloc(3)), resource(0x0404, iim)]);
+  };
+
+  it('should read application record datasets from the APP13 segment', () => {
+    const iim = Buffer.concat([
+      dataset(1, 90, Buffer.from([0x1b, 0x25, 0x47])),
+      dataset(2, 5, 'Hafen über Nacht'),
+      dataset(2, 116, '© Jane Doe'),
+      dataset(2, 116, 'second value')
+    ]);
+
+    expect(IptcUtils.parse(toApp13(iim))).toEqual({ 5: 'Hafen über Nacht', 116: '© Jane Doe' });
+  });
+
+  it('should decode text as Latin-1 without the UTF-8 marker', () => {
+    expect(IptcUtils.parse(dataset(2, 5, 'Café', 'latin1'))).toEqual({ 5: 'Café' });
+  });
+
+  it('should return what was read before malformed data', () => {
+    const iim = Buffer.concat([dataset(2, 5, 'Title'), Buffer.from([0x1c, 2, 116, 0, 50, 0x41])]);
+
+    expect(IptcUtils.parse(toApp13(iim))).toEqual({ 5: 'Title' });
+    expect(IptcUtils.parse(toApp13(iim).subarray(0, 30))).toEqual({});
+    expect(IptcUtils.parse(undefined)).toEqual({});
+  });
+});
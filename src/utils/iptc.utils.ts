@@ -0,0 +1,76 @@
+export class IptcUtils {
+  // Datasets of the IIM application record (2)
+  static readonly DATASETS = {
+    OBJECT_NAME: 5,
+    COPYRIGHT_NOTICE: 116
+  };
+
+  // ESC % G in dataset 1:90 declares UTF-8; IIM text is Latin-1 otherwise
+  private static readonly UTF8_MARKER = Buffer.from([0x1b, 0x25, 0x47]);
+
+  // Reads the application record from sharp's metadata, which is either the JPEG
+  // APP13 segment (Photoshop image resources) or bare IIM data. Malformed data
+  // never throws; the first value of each dataset is returned.
+  static parse(iptc?: Buffer): Record<number, string> {
+    if (!iptc) {
+      return {};
+    }
+    const iim = iptc.toString('latin1', 0, 14) === 'Photoshop 3.0\0' ? this.findIim(iptc.subarray(14)) : iptc;
+    return iim ? this.parseIim(iim) : {};
+  }
+
+  // Image resource 0x0404 holds the IIM data
+  private static findIim(resources: Buffer): Buffer | undefined {
+    let offset = 0;
+    while (offset + 12 <= resources.length && resources.toString('latin1', offset, offset + 4) === '8BIM') {
+      const id = resources.readUInt16BE(offset + 4);
+      // Pascal string name, padded to an even length including its length byte
+      const nameLength = resources[offset + 6];
+      const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+      if (sizeOffset + 4 > resources.length) {
+        return undefined;
+      }
+      const size = resources.readUInt32BE(sizeOffset);
+      const dataOffset = sizeOffset + 4;
+      if (dataOffset + size > resources.length) {
+        return undefined;
+      }
+      if (id === 0x0404) {
+        return resources.subarray(dataOffset, dataOffset + size);
+      }
+      offset = dataOffset + size + (size % 2);
+    }
+    return undefined;
+  }
+
+  private static parseIim(iim: Buffer): Record<number, string> {
+    const values: Record<number, Buffer> = {};
+    let utf8 = false;
+    let offset = 0;
+    while (offset + 5 <= iim.length && iim[offset] === 0x1c) {
+      const record = iim[offset + 1];
+      const dataset = iim[offset + 2];
+      const length = iim.readUInt16BE(offset + 3);
+      // Extended datasets (length bit 15 set) are only used for binary data
+      if (length & 0x8000 || offset + 5 + length > iim.length) {
+        break;
+      }
+      const value = iim.subarray(offset + 5, offset + 5 + length);
+      if (record === 1 && dataset === 90) {
+        utf8 = value.equals(this.UTF8_MARKER);
+      } else if (record === 2 && !(dataset in values)) {
+        values[dataset] = value;
+      }
+      offset += 5 + length;
+    }
+
+    const strings: Record<number, string> = {};
+    for (const [dataset, value] of Object.entries(values)) {
+      const text = value.toString(utf8 ? 'utf8' : 'latin1').trim();
+      if (text) {
+        strings[Number(dataset)] = text;
+      }
+    }
+    return strings;
+  }
+}
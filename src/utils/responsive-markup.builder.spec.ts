@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ResponsiveMarkupBuilder } from './responsive-markup.builder';
+import { GeneratedVariant, ImageFormat, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+describe('ResponsiveMarkupBuilder', () => {
+  const variants = (format: ImageFormat['type']): GeneratedVariant[] =>
+    [[320, 1], [320, 2], [640, 1], [640, 2]].map(([width, dpr]) => ({
+      path: `/img/${width}w@${dpr}x.${format}`,
+      format,
+      width,
+      sizeKey: `${width}w`,
+      dpr,
+      pixelWidth: width * dpr,
+      pixelHeight: width * dpr / 2,
+      bytes: 100
+    }));
+
+  const createResult = (...formats: ImageFormat['type'][]): ImageProcessingResult => ({
+    original: '/img/original.jpg',
+    originalMetadata: { width: 2000, height: 1000, format: 'jpeg', bytes: 1000 },
+    generated: Object.fromEntries(formats.map(format => [format, variants(format)])),
+    deduplicated: false
+  });
+
+  const result = createResult('webp', 'avif', 'jpeg');
+
+  describe('toJSON', () => {
+    it('should list one source per modern format with w descriptors', () => {
+      const picture = ResponsiveMarkupBuilder.toJSON(result, { alt: 'Cat', sizes: '(max-width: 600px) 100vw, 640px' });
+
+      expect(picture.sources).toEqual([
+        {
+          type: 'image/avif',
+          srcset: '/img/320w@1x.avif 320w, /img/320w@2x.avif 640w, /img/640w@2x.avif 1280w',
+          sizes: '(max-width: 600px) 100vw, 640px'
+        },
+        {
+          type: 'image/webp',
+          srcset: '/img/320w@1x.webp 320w, /img/320w@2x.webp 640w, /img/640w@2x.webp 1280w',
+          sizes: '(max-width: 600px) 100vw, 640px'
+        }
+      ]);
+      expect(picture.img).toEqual({
+        src: '/img/320w@1x.jpeg',
+        srcset: '/img/320w@1x.jpeg 320w, /img/320w@2x.jpeg 640w, /img/640w@2x.jpeg 1280w',
+        sizes: '(max-width: 600px) 100vw, 640px',
+        width: 320,
+        height: 160,
+        alt: 'Cat'
+      });
+    });
+
+    it('should use x descriptors for a single size without sizes', () => {
+      const picture = ResponsiveMarkupBuilder.toJSON(result, { alt: '', sizeKey: '640w' });
+
+      expect(picture.sources[0]).toEqual({ type: 'image/avif', srcset: '/img/640w@1x.avif 1x, /img/640w@2x.avif 2x' });
+      expect(picture.img).toMatchObject({ src: '/img/640w@1x.jpeg', width: 640, height: 320 });
+      expect(ResponsiveMarkupBuilder.toJSON(result, { alt: '' }).img.src).toBe('/img/320w@1x.jpeg');
+    });
+
+    it('should resolve public URLs', () => {
+      const picture = ResponsiveMarkupBuilder.toJSON(result, { alt: '', resolveUrl: path => `https://cdn.example.com${path}` });
+
+      expect(picture.img.src).toBe('https://cdn.example.com/img/320w@1x.jpeg');
+    });
+
+    it('should fall back to the least modern format when there is no universal one', () => {
+      const picture = ResponsiveMarkupBuilder.toJSON(createResult('avif', 'webp'), { alt: '' });
+
+      expect(picture.sources.map(source => source.type)).toEqual(['image/avif']);
+      expect(picture.img.src).toBe('/img/320w@1x.webp');
+    });
+
+    it('should return null without variants', () => {
+      expect(ResponsiveMarkupBuilder.toJSON(createResult(), { alt: '' })).toBeNull();
+      expect(ResponsiveMarkupBuilder.toJSON(result, { alt: '', sizeKey: '100w' })).toBeNull();
+    });
+  });
+
+  describe('toHtml', () => {
+    it('should render a picture element', () => {
+      const html = ResponsiveMarkupBuilder.toHtml(createResult('webp', 'jpeg'), { alt: 'Cat', sizeKey: '320w' });
+
+      expect(html).toBe(
+        '<picture>' +
+        '<source type="image/webp" srcset="/img/320w@1x.webp 1x, /img/320w@2x.webp 2x">' +
+        '<img src="/img/320w@1x.jpeg" srcset="/img/320w@1x.jpeg 1x, /img/320w@2x.jpeg 2x" width="320" height="160" alt="Cat">' +
+        '</picture>'
+      );
+    });
+
+    it('should escape attribute values', () => {
+      const html = ResponsiveMarkupBuilder.toHtml(result, { alt: '"><script>alert(1)</script>' });
+
+      expect(html).toContain('alt="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+      expect(html).not.toContain('<script>');
+    });
+
+    it('should render nothing without variants', () => {
+      expect(ResponsiveMarkupBuilder.toHtml(createResult(), { alt: '' })).toBe('');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { GeneratedVariant, ImageFormat, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+export interface ResponsiveMarkupOptions {
+  alt: string;
+  // sizes attribute; with it srcset uses w descriptors, without it x descriptors for a single size
+  sizes?: string;
+  // Turns a storage path into a public URL; paths are used as they are by default
+  resolveUrl?: (path: string) => string;
+  // Size to use; x descriptors default to the first size of the result
+  sizeKey?: string;
+}
+
+export interface ResponsiveSource {
+  type: string;
+  srcset: string;
+  sizes?: string;
+}
+
+export interface ResponsiveImg {
+  src: string;
+  srcset: string;
+  sizes?: string;
+  // CSS pixels, so the browser can reserve space before the image loads
+  width: number;
+  height: number;
+  alt: string;
+}
+
+// JSON form of a <picture> element for frameworks that render it themselves
+export interface ResponsivePicture {
+  sources: ResponsiveSource[];
+  img: ResponsiveImg;
+}
+
+export class ResponsiveMarkupBuilder {
+  // Order of <source> elements; browsers take the first type they support
+  private static readonly PREFERENCE: ImageFormat['type'][] = ['avif', 'webp', 'jpeg', 'png', 'gif', 'tiff'];
+
+  // Formats every browser decodes, preferred for the fallback <img>
+  private static readonly UNIVERSAL: ImageFormat['type'][] = ['jpeg', 'png', 'gif'];
+
+  // null when the result has no variants (or none with the requested sizeKey)
+  static toJSON(result: ImageProcessingResult, options: ResponsiveMarkupOptions): ResponsivePicture | null {
+    const resolveUrl = options.resolveUrl || ((path: string) => path);
+    const sizeKey = options.sizeKey || (options.sizes ? undefined : this.getFirstSizeKey(result));
+    const formats = this.PREFERENCE
+      .map(format => ({ format, variants: this.selectVariants(result.generated[format] || [], sizeKey, !options.sizes) }))
+      .filter(({ variants }) => variants.length > 0);
+    if (formats.length === 0) {
+      return null;
+    }
+
+    const fallback = formats.find(({ format }) => this.UNIVERSAL.includes(format)) || formats[formats.length - 1];
+    const srcset = (variants: GeneratedVariant[]) => variants
+      .map(variant => `${resolveUrl(variant.path)} ${options.sizes ? `${variant.pixelWidth}w` : `${variant.dpr}x`}`)
+      .join(', ');
+    const sizes = options.sizes ? { sizes: options.sizes } : {};
+
+    // The 1x variant of the largest size, or the smallest density when there is no 1x
+    const image = [...fallback.variants].reverse().find(variant => variant.dpr === 1) || fallback.variants[0];
+
+    return {
+      sources: formats
+        .filter(source => source !== fallback)
+        .map(({ format, variants }) => ({ type: `image/${format}`, srcset: srcset(variants), ...sizes })),
+      img: {
+        src: resolveUrl(image.path),
+        srcset: srcset(fallback.variants),
+        ...sizes,
+        width: Math.round(image.pixelWidth / image.dpr),
+        height: Math.round(image.pixelHeight / image.dpr),
+        alt: options.alt
+      }
+    };
+  }
+
+  // Empty string when there is nothing to show
+  static toHtml(result: ImageProcessingResult, options: ResponsiveMarkupOptions): string {
+    const picture = this.toJSON(result, options);
+    if (!picture) {
+      return '';
+    }
+
+    const sources = picture.sources.map(source => `<source${this.renderAttributes(source)}>`);
+    return `<picture>${sources.join('')}<img${this.renderAttributes(picture.img)}></picture>`;
+  }
+
+  private static getFirstSizeKey(result: ImageProcessingResult): string | undefined {
+    return Object.values(result.generated).flat()[0]?.sizeKey;
+  }
+
+  // w descriptors need one entry per pixel width, x descriptors one per density
+  private static selectVariants(variants: GeneratedVariant[], sizeKey: string | undefined, byDensity: boolean): GeneratedVariant[] {
+    const matching = variants.filter(variant => !sizeKey || variant.sizeKey === sizeKey);
+    const descriptor = (variant: GeneratedVariant) => byDensity ? variant.dpr : variant.pixelWidth;
+    const unique = new Map<number, GeneratedVariant>();
+    for (const variant of matching) {
+      if (!unique.has(descriptor(variant))) {
+        unique.set(descriptor(variant), variant);
+      }
+    }
+    return [...unique.values()].sort((a, b) => descriptor(a) - descriptor(b));
+  }
+
+  private static renderAttributes(attributes: object): string {
+    return Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${this.escapeAttribute(String(value))}"`)
+      .join('');
+  }
+
+  private static escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { SvgSanitizer } from './svg-sanitizer';
+import { ImageFixtures, MaliciousSvgKind } from '../testing/image-fixtures';
+
+const sanitize = (kind: MaliciousSvgKind) => SvgSanitizer.sanitize(ImageFixtures.maliciousSvg(kind).toString());
+
+describe('SvgSanitizer', () => {
+  it('should keep a benign SVG unchanged', () => {
+    const svg = ImageFixtures.svg().toString();
+
+    expect(SvgSanitizer.sanitize(svg)).toBe(svg);
+  });
+
+  it('should remove scripts', () => {
+    expect(sanitize('script')).not.toMatch(/script|alert/i);
+  });
+
+  it('should remove event handlers', () => {
+    const result = sanitize('eventHandler');
+
+    expect(result).not.toMatch(/onload|onclick|alert/);
+    expect(result).toContain('fill="#ff0000"');
+  });
+
+  it('should remove javascript: links hidden behind character references', () => {
+    expect(sanitize('javascriptHref')).not.toMatch(/href|avascript/);
+  });
+
+  it('should remove external references', () => {
+    expect(sanitize('externalImage')).not.toContain('attacker.example');
+    expect(sanitize('xmlStylesheet')).not.toContain('attacker.example');
+    expect(sanitize('cssImport')).not.toContain('attacker.example');
+  });
+
+  it('should remove foreignObject with its content', () => {
+    expect(sanitize('foreignObject')).not.toMatch(/foreignObject|iframe|attacker/);
+  });
+
+  it('should remove DTDs so entities cannot expand', () => {
+    expect(sanitize('entityExpansion')).not.toMatch(/DOCTYPE|ENTITY|&d;/);
+    expect(sanitize('externalEntity')).not.toMatch(/DOCTYPE|ENTITY|passwd/);
+  });
+
+  it('should remove a doctype of repeated empty subsets in linear time', () => {
+    const start = Date.now();
+
+    expect(sanitize('doctypeBacktracking')).not.toContain('DOCTYPE');
+    expect(SvgSanitizer.sanitize('<svg><!DOCTYPE ' + '[]'.repeat(50000))).toMatch(/^<svg>/);
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+
+  it('should keep fragment links and embedded raster images', () => {
+    const svg = '<svg><use href="#icon"/><image xlink:href="data:image/png;base64,iVBORw0KGgo="/></svg>';
+
+    expect(SvgSanitizer.sanitize(svg)).toBe(svg);
+  });
+
+  it('should not be fooled by nested or prefixed elements', () => {
+    expect(SvgSanitizer.sanitize('<svg><scr<script></script>ipt>alert(1)</script></svg>')).not.toMatch(/<script/i);
+    expect(SvgSanitizer.sanitize('<svg><svg:script>alert(1)</svg:script></svg>')).not.toContain('alert');
+    expect(SvgSanitizer.sanitize('<svg><rect title=">" onload="alert(1)"/></svg>')).not.toContain('onload');
+  });
+});
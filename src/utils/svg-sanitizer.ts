@@ -0,0 +1,100 @@
+export class SvgSanitizer {
+  // Elements removed together with their content, with or without a namespace prefix
+  private static readonly FORBIDDEN_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object'];
+
+  // Fragment links and embedded raster images are the only references kept
+  private static readonly SAFE_REFERENCE = /^\s*(#|data:image\/(png|jpe?g|gif|webp);base64,)/i;
+
+  private static readonly SCRIPT_URL = /(java|vb)script:|data:text\/html/i;
+
+  private static readonly ATTRIBUTE = /\s+([^\s=/>]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s>]+))?/g;
+
+  // Quote-aware, so a ">" inside an attribute value does not end the tag
+  private static readonly TAG =
+    /<([a-zA-Z][\w:.-]*)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+
+  // Strips scripts, event handlers, external references, <foreignObject> and DTDs
+  // (entity expansion). Runs until the output is stable, so removing one construct
+  // cannot assemble another from the surrounding text.
+  static sanitize(svg: string): string {
+    let current = svg;
+    let previous: string;
+    do {
+      previous = current;
+      current = this.sanitizePass(current);
+    } while (current !== previous);
+    return current;
+  }
+
+  private static sanitizePass(svg: string): string {
+    // The internal subset cannot contain "[", so each doctype has one parse and an
+    // unclosed one stops at the next "[" instead of backtracking
+    let result = svg
+      .replace(/<!DOCTYPE(?:[^>[]|\[[^\][]*\])*>/gi, '')
+      .replace(/<!ENTITY[\s\S]*?>/gi, '')
+      // With the DTD gone only the predefined and numeric references remain valid XML
+      .replace(/&(?!(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);)[\w.-]+;/gi, '')
+      .replace(/<\?(?!xml\s)[\s\S]*?\?>/gi, '');
+
+    for (const element of this.FORBIDDEN_ELEMENTS) {
+      const name = `(?:[\\w.-]+:)?${element}`;
+      result = result
+        .replace(new RegExp(`<${name}\\b[\\s\\S]*?</${name}\\s*>`, 'gi'), '')
+        .replace(new RegExp(`<${name}\\b[^>]*>`, 'gi'), '');
+    }
+
+    return result
+      .replace(this.TAG, (_tag, name: string, attributes: string, selfClosing: string) =>
+        `<${name}${this.sanitizeAttributes(attributes)}${selfClosing}>`
+      )
+      .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style\s*>)/gi, (_style, open: string, css: string, close: string) =>
+        `${open}${this.sanitizeCss(css)}${close}`
+      )
+      // Event handlers left in tags the pattern above could not parse
+      .replace(/(\s)on[a-z]+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '$1');
+  }
+
+  private static sanitizeAttributes(attributes: string): string {
+    return attributes.replace(this.ATTRIBUTE, (attribute, name: string, rawValue: string = '') => {
+      const lowerName = name.toLowerCase();
+      const quote = rawValue.startsWith("'") ? "'" : '"';
+      const rawText = rawValue.replace(/^["']|["']$/g, '');
+      const value = this.decodeEntities(rawText);
+
+      if (lowerName.startsWith('on') || this.SCRIPT_URL.test(value)) {
+        return '';
+      }
+      if (this.isReferenceAttribute(lowerName) && !this.SAFE_REFERENCE.test(value)) {
+        return '';
+      }
+      if (lowerName === 'style') {
+        return ` ${name}=${quote}${this.sanitizeCss(rawText)}${quote}`;
+      }
+      return attribute;
+    });
+  }
+
+  private static isReferenceAttribute(name: string): boolean {
+    return name === 'href' || name === 'src' || name.endsWith(':href');
+  }
+
+  private static sanitizeCss(css: string): string {
+    return css
+      .replace(/@import[^;]*;?/gi, '')
+      .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (reference, _quote, target: string) =>
+        this.SAFE_REFERENCE.test(target) ? reference : 'none'
+      );
+  }
+
+  // Numeric character references can hide "javascript:" from a plain text match
+  private static decodeEntities(value: string): string {
+    return value
+      .replace(/&#x([0-9a-f]+);?/gi, (_entity, hex: string) => this.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);?/g, (_entity, decimal: string) => this.fromCodePoint(parseInt(decimal, 10)))
+      .replace(/[\s\u0000-\u001f]+/g, '');
+  }
+
+  private static fromCodePoint(codePoint: number): string {
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+  }
+}
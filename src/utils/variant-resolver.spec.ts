@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { VariantResolver } from './variant-resolver';
+import { GeneratedVariant, ImageFormat, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+const CHROME_ACCEPT = 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8';
+
+describe('VariantResolver', () => {
+  const variants = (format: ImageFormat['type'], sizeKey = '320w'): GeneratedVariant[] =>
+    [[320, 1], [320, 2], [640, 1], [640, 2]].map(([width, dpr]) => ({
+      path: `/a/${width}w@${dpr}x.${format}`,
+      format,
+      width,
+      sizeKey: width === 320 ? sizeKey : '640w',
+      dpr,
+      pixelWidth: width * dpr,
+      pixelHeight: width * dpr * 0.75,
+      bytes: 100
+    }));
+
+  const createResult = (...formats: ImageFormat['type'][]): ImageProcessingResult => ({
+    original: '/a/original.jpg',
+    originalMetadata: { width: 2000, height: 1500, format: 'jpeg', bytes: 1000 },
+    generated: Object.fromEntries(formats.map(format => [format, variants(format)])),
+    deduplicated: false
+  });
+
+  const result = createResult('avif', 'webp', 'jpeg');
+
+  describe('format negotiation', () => {
+    it('should prefer AVIF, then WebP, when the client names them', () => {
+      expect(VariantResolver.resolve(result, { accept: CHROME_ACCEPT }).variant.format).toBe('avif');
+      expect(VariantResolver.resolve(result, { accept: 'image/webp,image/*;q=0.8' }).variant.format).toBe('webp');
+    });
+
+    it('should not serve newer formats through image/* alone', () => {
+      expect(VariantResolver.resolve(result, { accept: 'image/*' }).variant.format).toBe('jpeg');
+      expect(VariantResolver.resolve(result).variant.format).toBe('jpeg');
+    });
+
+    it('should follow q-values and exclusions', () => {
+      expect(VariantResolver.resolve(result, { accept: 'image/avif;q=0.5,image/webp' }).variant.format).toBe('webp');
+      expect(VariantResolver.resolve(result, { accept: 'image/avif;q=0,image/*' }).variant.format).toBe('jpeg');
+    });
+
+    it('should fall back to the most compatible format when nothing is acceptable', () => {
+      expect(VariantResolver.resolve(result, { accept: 'application/json' }).variant.format).toBe('jpeg');
+      expect(VariantResolver.resolve(createResult('avif', 'webp'), { accept: 'image/*' }).variant.format).toBe('avif');
+    });
+  });
+
+  describe('size selection', () => {
+    it('should pick the smallest variant covering the width at the hinted DPR', () => {
+      expect(VariantResolver.resolve(result, { width: 300 }).path).toBe('/a/320w@1x.jpeg');
+      expect(VariantResolver.resolve(result, { width: 300, dpr: '2' }).variant.pixelWidth).toBe(640);
+      expect(VariantResolver.resolve(result, { width: 500, dpr: 2.5 }).path).toBe('/a/640w@2x.jpeg');
+    });
+
+    it('should use the largest variant when none is wide enough or no width is given', () => {
+      expect(VariantResolver.resolve(result, { width: 2000 }).path).toBe('/a/640w@2x.jpeg');
+      expect(VariantResolver.resolve(result).path).toBe('/a/640w@2x.jpeg');
+    });
+
+    it('should treat an invalid DPR hint as 1', () => {
+      expect(VariantResolver.resolve(result, { width: 320, dpr: 'abc' }).path).toBe('/a/320w@1x.jpeg');
+    });
+
+    it('should restrict the choice to a size key', () => {
+      const cropped = { ...result, generated: { jpeg: variants('jpeg', '320x320-cover') } };
+
+      expect(VariantResolver.resolve(cropped, { width: 1000, sizeKey: '320x320-cover' }).path).toBe('/a/320w@2x.jpeg');
+      expect(VariantResolver.resolve(cropped, { sizeKey: '100w' })).toBeNull();
+    });
+  });
+
+  describe('Vary', () => {
+    it('should name the headers the choice depends on', () => {
+      expect(VariantResolver.resolve(result).vary).toBe('Accept, Sec-CH-DPR, DPR');
+    });
+
+    it('should leave out headers that cannot change the choice', () => {
+      const single = createResult('jpeg');
+      single.generated.jpeg = single.generated.jpeg.filter(variant => variant.dpr === 1);
+
+      expect(VariantResolver.resolve(single, { accept: CHROME_ACCEPT })).toMatchObject({
+        contentType: 'image/jpeg',
+        vary: ''
+      });
+    });
+  });
+
+  it('should accept a stored manifest', () => {
+    expect(VariantResolver.resolve(JSON.stringify(result), { accept: CHROME_ACCEPT, width: 320 }))
+      .toMatchObject({ path: '/a/320w@1x.avif', contentType: 'image/avif' });
+  });
+});
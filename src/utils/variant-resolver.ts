@@ -0,0 +1,137 @@
+import { GeneratedVariant, ImageFormat, ImageProcessingResult } from '../interfaces/image-processing.interface';
+
+export interface VariantRequest {
+  // HTTP Accept header
+  accept?: string;
+  // Width the image is displayed at, in CSS pixels; the largest variant when omitted
+  width?: number;
+  // Sec-CH-DPR or DPR header value; 1 when missing or invalid
+  dpr?: number | string;
+  // Restricts the choice to one size, for configs that mix crops (e.g. '256x256-cover')
+  sizeKey?: string;
+}
+
+export interface ResolvedVariant {
+  path: string;
+  contentType: string;
+  variant: GeneratedVariant;
+  // Request headers the choice depends on, e.g. 'Accept, Sec-CH-DPR, DPR'; empty when it depends on none
+  vary: string;
+}
+
+export class VariantResolver {
+  // Preferred order among formats the client accepts equally
+  private static readonly PREFERENCE: ImageFormat['type'][] = ['avif', 'webp', 'jpeg', 'png', 'gif', 'tiff'];
+
+  // Formats every browser decodes, so "image/*" or a missing Accept header covers them.
+  // Newer formats are only served when the client names them.
+  private static readonly UNIVERSAL: ImageFormat['type'][] = ['jpeg', 'png', 'gif'];
+
+  // Picks the variant to serve from a processing result or its stored manifest JSON.
+  // Returns null when the result has no variants (or none with the requested sizeKey).
+  static resolve(result: ImageProcessingResult | string, request: VariantRequest = {}): ResolvedVariant | null {
+    const { generated } = typeof result === 'string' ? JSON.parse(result) as ImageProcessingResult : result;
+    const candidates = new Map<string, GeneratedVariant[]>();
+    for (const [format, variants] of Object.entries(generated)) {
+      const matching = variants.filter(variant => !request.sizeKey || variant.sizeKey === request.sizeKey);
+      if (matching.length > 0) {
+        candidates.set(format, matching);
+      }
+    }
+    if (candidates.size === 0) {
+      return null;
+    }
+
+    const format = this.negotiateFormat([...candidates.keys()], request.accept);
+    const targetWidth = request.width > 0 ? request.width * this.parseDpr(request.dpr) : Infinity;
+    const variant = this.pickVariant(candidates.get(format), targetWidth);
+
+    const vary: string[] = [];
+    if (candidates.size > 1) {
+      vary.push('Accept');
+    }
+    if (new Set([...candidates.values()].flat().map(candidate => candidate.dpr)).size > 1) {
+      vary.push('Sec-CH-DPR', 'DPR');
+    }
+
+    return {
+      path: variant.path,
+      contentType: `image/${variant.format}`,
+      variant,
+      vary: vary.join(', ')
+    };
+  }
+
+  // Highest q-value wins, ties go to PREFERENCE. When the client accepts none of the
+  // formats, the most widely supported one is served rather than nothing.
+  private static negotiateFormat(formats: string[], accept?: string): string {
+    const ranges = this.parseAccept(accept);
+    const byPreference = [...formats].sort((a, b) => this.rank(a) - this.rank(b));
+
+    let best: string | undefined;
+    let bestQuality = 0;
+    for (const format of byPreference) {
+      const quality = this.getQuality(format, ranges);
+      if (quality > bestQuality) {
+        best = format;
+        bestQuality = quality;
+      }
+    }
+    if (best) {
+      return best;
+    }
+    return byPreference.find(format => this.UNIVERSAL.includes(format as ImageFormat['type'])) || byPreference[0];
+  }
+
+  private static getQuality(format: string, ranges: Map<string, number> | null): number {
+    const universal = this.UNIVERSAL.includes(format as ImageFormat['type']);
+    if (!ranges) {
+      return universal ? 1 : 0;
+    }
+
+    const mimeTypes = format === 'jpeg' ? ['image/jpeg', 'image/jpg'] : [`image/${format}`];
+    const explicit = mimeTypes.find(mimeType => ranges.has(mimeType));
+    if (explicit) {
+      return ranges.get(explicit);
+    }
+    if (!universal) {
+      return 0;
+    }
+    return ranges.get('image/*') ?? ranges.get('*/*') ?? 0;
+  }
+
+  // Media range to q-value; null when there is no Accept header
+  private static parseAccept(accept?: string): Map<string, number> | null {
+    if (!accept || !accept.trim()) {
+      return null;
+    }
+
+    const ranges = new Map<string, number>();
+    for (const part of accept.split(',')) {
+      const [mediaRange, ...parameters] = part.split(';').map(item => item.trim().toLowerCase());
+      if (!mediaRange) {
+        continue;
+      }
+      const qParameter = parameters.find(parameter => parameter.startsWith('q='));
+      const quality = qParameter ? parseFloat(qParameter.slice(2)) : 1;
+      ranges.set(mediaRange, Number.isFinite(quality) ? Math.min(Math.max(quality, 0), 1) : 0);
+    }
+    return ranges;
+  }
+
+  private static parseDpr(dpr?: number | string): number {
+    const value = typeof dpr === 'string' ? parseFloat(dpr) : dpr;
+    return Number.isFinite(value) && value > 0 ? value : 1;
+  }
+
+  // The smallest variant that covers the target pixel width, or the largest one if none does
+  private static pickVariant(variants: GeneratedVariant[], targetWidth: number): GeneratedVariant {
+    const bySize = [...variants].sort((a, b) => a.pixelWidth - b.pixelWidth);
+    return bySize.find(variant => variant.pixelWidth >= targetWidth) || bySize[bySize.length - 1];
+  }
+
+  private static rank(format: string): number {
+    const index = this.PREFERENCE.indexOf(format as ImageFormat['type']);
+    return index === -1 ? this.PREFERENCE.length : index;
+  }
+}
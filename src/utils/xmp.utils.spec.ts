@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { XmpUtils } from './xmp.utils';
+
+describe('XmpUtils', () => {
+  const packet = (description: string) => Buffer.from(
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    `${description}</rdf:RDF></x:xmpmeta>`
+  );
+
+  it('should prefer the x-default language', () => {
+    const xmp = packet(
+      '<rdf:Description xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title><rdf:Alt>' +
+      '<rdf:li xml:lang="de-DE">Hafen</rdf:li><rdf:li xml:lang="x-default">Harbour &amp; boats</rdf:li>' +
+      '</rdf:Alt></dc:title></rdf:Description>'
+    );
+
+    expect(XmpUtils.getText(xmp, 'dc:title')).toBe('Harbour & boats');
+  });
+
+  it('should read simple properties written as elements or attributes', () => {
+    const xmp = packet(
+      '<rdf:Description xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/" photoshop:City="Sydney">' +
+      '<photoshop:Credit>Jane &#169; Doe</photoshop:Credit></rdf:Description>'
+    );
+
+    expect(XmpUtils.getText(xmp, 'photoshop:City')).toBe('Sydney');
+    expect(XmpUtils.getText(xmp, 'photoshop:Credit')).toBe('Jane © Doe');
+  });
+
+  it('should skip self-closing and unrelated tags', () => {
+    const xmp = packet('<rdf:Description><dc:titles>No</dc:titles><dc:title/><dc:title>Yes</dc:title></rdf:Description>');
+
+    expect(XmpUtils.getText(xmp, 'dc:title')).toBe('Yes');
+  });
+
+  it('should stay linear on packets full of unclosed tags and values', () => {
+    const start = Date.now();
+
+    expect(XmpUtils.getText(packet('<dc:title>'.repeat(40000)), 'dc:title')).toBeUndefined();
+    expect(XmpUtils.getText(packet('<dc:title><rdf:li>'.repeat(20000) + '</dc:title>'), 'dc:title')).toBeUndefined();
+    expect(XmpUtils.getText(packet(' dc:title = '.repeat(40000) + '"'), 'dc:title')).toBeUndefined();
+    expect(XmpUtils.getText(packet('<dc:title>' + '<'.repeat(400000) + '</dc:title>'), 'dc:title')).toBe('<'.repeat(400000));
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+
+  it('should return undefined for missing or empty properties', () => {
+    expect(XmpUtils.getText(packet('<rdf:Description><dc:title> </dc:title></rdf:Description>'), 'dc:title')).toBeUndefined();
+    expect(XmpUtils.getText(packet('<rdf:Description/>'), 'dc:rights')).toBeUndefined();
+    expect(XmpUtils.getText(undefined, 'dc:title')).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+export class XmpUtils {
+  // Text of a simple or language alternative property such as 'dc:title' or 'dc:rights',
+  // preferring the x-default language. Undefined when the packet does not have it.
+  // Packets come from uploads and are not size-limited, so tags are found with indexOf
+  // rather than backtracking patterns and every lookup stays linear in the packet length.
+  static getText(xmp: Buffer | undefined, property: string): string | undefined {
+    if (!xmp) {
+      return undefined;
+    }
+    const packet = xmp.toString('utf8');
+
+    // Written as an attribute of rdf:Description
+    const attribute = this.findAttribute(packet, property);
+    if (attribute !== undefined) {
+      return this.clean(attribute);
+    }
+
+    const element = this.findElement(packet, property);
+    if (!element) {
+      return undefined;
+    }
+    const items: Array<{ attributes: string; content: string }> = [];
+    for (let item = this.findElement(element.content, 'rdf:li'); item; item = this.findElement(element.content, 'rdf:li', item.end)) {
+      items.push(item);
+    }
+    if (items.length === 0) {
+      return this.clean(element.content);
+    }
+    const preferred = items.find(item => /xml:lang\s*=\s*["']x-default["']/.test(item.attributes)) || items[0];
+    return this.clean(preferred.content);
+  }
+
+  // Value of the first ` name="..."` or ` name='...'`. A quote that is never closed is
+  // not searched for again, so unterminated values cannot make the scan quadratic.
+  private static findAttribute(packet: string, name: string): string | undefined {
+    const unterminated = new Set<string>();
+    const equals = /\s*=\s*(["'])/y;
+    for (let start = packet.indexOf(name); start >= 0; start = packet.indexOf(name, start + 1)) {
+      if (!/\s/.test(packet[start - 1] ?? '')) {
+        continue;
+      }
+      equals.lastIndex = start + name.length;
+      const match = equals.exec(packet);
+      if (!match || unterminated.has(match[1])) {
+        continue;
+      }
+      const end = packet.indexOf(match[1], equals.lastIndex);
+      if (end < 0) {
+        unterminated.add(match[1]);
+        continue;
+      }
+      return packet.substring(equals.lastIndex, end);
+    }
+    return undefined;
+  }
+
+  // The first complete <name ...>...</name> at or after from; end is the index after it.
+  // Without a closing tag past an opener no later opener can have one, so the search stops.
+  private static findElement(
+    text: string,
+    name: string,
+    from = 0
+  ): { attributes: string; content: string; end: number } | undefined {
+    const opener = `<${name}`;
+    for (let start = text.indexOf(opener, from); start >= 0; start = text.indexOf(opener, start + 1)) {
+      const next = text[start + opener.length];
+      if (next !== '>' && !/\s/.test(next ?? '')) {
+        continue;
+      }
+      const openEnd = text.indexOf('>', start);
+      if (openEnd < 0) {
+        return undefined;
+      }
+      if (text[openEnd - 1] === '/') {
+        continue;
+      }
+      const close = text.indexOf(`</${name}`, openEnd);
+      const closeEnd = close < 0 ? -1 : text.indexOf('>', close);
+      if (closeEnd < 0) {
+        return undefined;
+      }
+      return {
+        attributes: text.substring(start + opener.length, openEnd),
+        content: text.substring(openEnd + 1, close),
+        end: closeEnd + 1
+      };
+    }
+    return undefined;
+  }
+
+  private static clean(text: string): string | undefined {
+    const value = text
+      .replace(/<[^<>]*>/g, '')
+      .replace(/&#x([0-9a-f]+);/gi, (_entity, hex: string) => this.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_entity, decimal: string) => this.fromCodePoint(parseInt(decimal, 10)))
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+    return value || undefined;
+  }
+
+  private static fromCodePoint(codePoint: number): string {
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+  }
+}